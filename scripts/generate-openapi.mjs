@@ -0,0 +1,142 @@
+// Generates JSON Schemas for the public API's response types straight from
+// their TypeScript declarations, so the published OpenAPI document cannot
+// drift from the code. Run `npm run openapi` after changing any of them;
+// src/lib/openapi.test.ts fails while the committed output is stale.
+import { writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+export const OUTPUT_PATH = path.join(ROOT, "src/lib/openapi-schemas.generated.json");
+
+// Each named type becomes a component; every other type is inlined where it
+// is used.
+const COMPONENTS = {
+  "src/lib/api-v1.ts": ["WeatherResponse", "ApiError", "ApiErrorCode"],
+  "src/lib/nws.ts": [
+    "WeatherPayload",
+    "WeatherAlert",
+    "AlertSeverity",
+    "AlertUrgency",
+    "WeatherProviderId",
+  ],
+  "src/lib/weather-pipeline.ts": ["WeatherMeta"],
+  "src/lib/circuit-breaker.ts": ["CircuitState"],
+  "src/lib/units.ts": ["ConvertedWeather"],
+};
+
+const createChecker = () => {
+  const program = ts.createProgram(
+    Object.keys(COMPONENTS).map((file) => path.join(ROOT, file)),
+    {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      resolveJsonModule: true,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      target: ts.ScriptTarget.ES2017,
+      baseUrl: ROOT,
+      paths: { "@/*": ["./src/*"] },
+    }
+  );
+  return { program, checker: program.getTypeChecker() };
+};
+
+const findAlias = (sourceFile, name) =>
+  sourceFile.statements.find(
+    (statement) => ts.isTypeAliasDeclaration(statement) && statement.name.text === name
+  );
+
+const hasFlag = (type, flag) => (type.flags & flag) !== 0;
+
+export const generateSchemas = () => {
+  const { program, checker } = createChecker();
+  const named = new Map();
+  Object.entries(COMPONENTS).forEach(([file, names]) => {
+    const sourceFile = program.getSourceFile(path.join(ROOT, file));
+    names.forEach((name) => {
+      const declaration = sourceFile && findAlias(sourceFile, name);
+      if (!declaration) throw new Error(`Type ${name} not found in ${file}`);
+      named.set(name, checker.getTypeAtLocation(declaration.name));
+    });
+  });
+  const nameOf = (type) => {
+    for (const [name, candidate] of named) {
+      if (candidate === type) return name;
+    }
+    const alias = type.aliasSymbol?.name;
+    return alias && named.has(alias) ? alias : null;
+  };
+
+  const toSchema = (type, root = false) => {
+    const name = root ? null : nameOf(type);
+    if (name) return { $ref: `#/components/schemas/${name}` };
+
+    if (type.isUnion()) {
+      const members = type.types.filter((member) => !hasFlag(member, ts.TypeFlags.Undefined));
+      const nullable = members.some((member) => hasFlag(member, ts.TypeFlags.Null));
+      const rest = members.filter((member) => !hasFlag(member, ts.TypeFlags.Null));
+      let schema;
+      if (rest.every((member) => member.isStringLiteral())) {
+        schema = { type: "string", enum: rest.map((member) => member.value) };
+      } else if (rest.every((member) => hasFlag(member, ts.TypeFlags.BooleanLiteral))) {
+        schema = { type: "boolean" };
+      } else if (rest.length === 1) {
+        schema = toSchema(rest[0]);
+      } else {
+        schema = { anyOf: rest.map((member) => toSchema(member)) };
+      }
+      if (!nullable) return schema;
+      if (typeof schema.type === "string") {
+        return {
+          ...schema,
+          type: [schema.type, "null"],
+          ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+        };
+      }
+      return { anyOf: [schema, { type: "null" }] };
+    }
+    if (type.isStringLiteral()) return { type: "string", const: type.value };
+    if (type.isNumberLiteral()) return { type: "number", const: type.value };
+    if (hasFlag(type, ts.TypeFlags.String)) return { type: "string" };
+    if (hasFlag(type, ts.TypeFlags.Number)) return { type: "number" };
+    if (hasFlag(type, ts.TypeFlags.Boolean | ts.TypeFlags.BooleanLiteral)) {
+      return { type: "boolean" };
+    }
+    if (hasFlag(type, ts.TypeFlags.Null)) return { type: "null" };
+    if (checker.isArrayType(type)) {
+      return { type: "array", items: toSchema(checker.getTypeArguments(type)[0]) };
+    }
+    if (hasFlag(type, ts.TypeFlags.Object)) {
+      const properties = {};
+      const required = [];
+      checker.getPropertiesOfType(type).forEach((property) => {
+        properties[property.name] = toSchema(checker.getTypeOfSymbol(property));
+        if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+      });
+      return {
+        type: "object",
+        properties,
+        required,
+        additionalProperties: false,
+      };
+    }
+    throw new Error(`Unsupported type: ${checker.typeToString(type)}`);
+  };
+
+  return Object.fromEntries(
+    [...named.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, type]) => [name, toSchema(type, true)])
+  );
+};
+
+export const renderSchemas = () => `${JSON.stringify(generateSchemas(), null, 2)}\n`;
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  writeFileSync(OUTPUT_PATH, renderSchemas());
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT_PATH)}`);
+}
@@ -8,15 +8,22 @@ import {
   useState,
   type CSSProperties,
 } from "react";
-import type { WeatherPayload } from "@/lib/nws";
+import type { AlertSeverity, WeatherPayload } from "@/lib/nws";
 import type { WeatherMeta } from "@/lib/weather-pipeline";
-
-const formatTemp = (value: number | null, unit: "F" | "C") => {
-  if (value === null) return "—";
-  return unit === "F"
-    ? `${Math.round(value)}°F`
-    : `${Math.round((value - 32) * (5 / 9))}°C`;
-};
+import { getOutfitLooks } from "@/lib/outfits";
+import { formatPrecipitation, formatSnowfall } from "@/lib/accumulation";
+import {
+  convertTemperature,
+  formatDistance,
+  formatPrecipitationAmount,
+  formatPressure,
+  formatSnowfallAmount,
+  formatSpeed,
+  formatTemperature,
+  formatUnitSystem,
+  resolveUnits,
+  type UnitSystem,
+} from "@/lib/units";
 
 const formatTime = (iso: string) =>
   new Intl.DateTimeFormat(undefined, {
@@ -29,6 +36,27 @@ const formatDay = (iso: string) =>
     weekday: "short",
   }).format(new Date(iso));
 
+const alertSeverityClass: Record<AlertSeverity, string> = {
+  Extreme: "border-red-400/70 bg-red-500/30",
+  Severe: "border-orange-400/70 bg-orange-500/25",
+  Moderate: "border-yellow-300/60 bg-yellow-500/20",
+  Minor: "border-sky-300/50 bg-sky-500/15",
+  Unknown: "border-white/30 bg-white/10",
+};
+
+const formatAlertWindow = (onset: string | null, expires: string | null) => {
+  const format = (iso: string) =>
+    new Intl.DateTimeFormat(undefined, {
+      weekday: "short",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(new Date(iso));
+  if (onset && expires) return `${format(onset)} – ${format(expires)}`;
+  if (expires) return `Until ${format(expires)}`;
+  if (onset) return `From ${format(onset)}`;
+  return "";
+};
+
 const conditionToTheme = (condition: string) => {
   const normalized = condition.toLowerCase();
   if (normalized.includes("snow")) return "bg-snowy";
@@ -79,11 +107,16 @@ type GeoSuggestion = {
 export default function WeatherView({ initialWeather, initialMeta }: WeatherViewProps) {
   const [weather, setWeather] = useState(initialWeather);
   const [meta, setMeta] = useState(initialMeta);
-  const [unit, setUnit] = useState<"F" | "C">("F");
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("imperial");
+  const units = useMemo(() => resolveUnits(unitSystem), [unitSystem]);
   const [email, setEmail] = useState("");
+  const [alertSeverity, setAlertSeverity] = useState<
+    Exclude<AlertSeverity, "Unknown">
+  >("Severe");
   const [subscribeState, setSubscribeState] = useState<
     "idle" | "loading" | "success" | "error"
   >("idle");
+  const [confirmPending, setConfirmPending] = useState(false);
   const [rain, setRain] = useState<Particle[]>([]);
   const [snow, setSnow] = useState<Particle[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
@@ -95,6 +128,7 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
     "idle" | "loading" | "error"
   >("idle");
   const [notice, setNotice] = useState<string | null>(null);
+  const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([]);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [locationChosen, setLocationChosen] = useState(false);
   const [unitChosen, setUnitChosen] = useState(false);
@@ -226,8 +260,9 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           email,
-          unit,
+          units: formatUnitSystem(unitSystem),
           timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          minAlertSeverity: alertSeverity,
           location: {
             name: weather.location.name,
             lat: weather.location.lat,
@@ -239,6 +274,8 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
         setSubscribeState("error");
         return;
       }
+      const payload = await response.json();
+      setConfirmPending(Boolean(payload?.pending));
       setSubscribeState("success");
       if (showOnboarding) {
         window.localStorage.setItem("skyview_onboarding_complete", "true");
@@ -327,14 +364,10 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
   const summary = useMemo(() => {
     const day = weather.daily[0];
     if (!day) return "";
-    return `H: ${formatTemp(day.highF, unit)} L: ${formatTemp(day.lowF, unit)}`;
-  }, [weather.daily, unit]);
+    return `H: ${formatTemperature(day.highF, units)} L: ${formatTemperature(day.lowF, units)}`;
+  }, [weather.daily, units]);
 
-  const toUnitValue = (valueF: number | null) => {
-    if (valueF === null) return null;
-    if (unit === "F") return valueF;
-    return (valueF - 32) * (5 / 9);
-  };
+  const toUnitValue = (valueF: number | null) => convertTemperature(valueF, units);
 
   const timeBadge = useMemo(() => {
     const now = new Date();
@@ -407,7 +440,7 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
     });
 
     return { path, area, maxIndex, minIndex, values, min, max };
-  }, [weather.daily, unit]);
+  }, [weather.daily, units]);
 
   const dailyRange = useMemo(() => {
     const lows = weather.daily.map((day) => toUnitValue(day.lowF));
@@ -421,145 +454,24 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
       min: Math.min(...lowVals),
       max: Math.max(...highVals),
     };
-  }, [weather.daily, unit]);
+  }, [weather.daily, units]);
+
+  const visibleAlerts = weather.alerts.filter(
+    (alert) => !dismissedAlerts.includes(alert.id)
+  );
+
+  const dismissAlert = (id: string) => {
+    setDismissedAlerts((prev) => (prev.includes(id) ? prev : [...prev, id]));
+  };
 
   const heroEmoji = conditionToEmoji(weather.current.condition);
   const onboardingComplete =
     locationChosen && unitChosen && subscribeState === "success";
 
-  const outfitLooks = useMemo(() => {
-    const feelsLike = weather.current.feelsLikeF ?? weather.current.temperatureF ?? 70;
-    const condition = weather.current.condition.toLowerCase();
-    const windy = (weather.current.windSpeedMph ?? 0) >= 18;
-    const wet = condition.includes("rain") || condition.includes("shower");
-    const snowy = condition.includes("snow") || condition.includes("sleet");
-    const stormy = condition.includes("storm") || condition.includes("thunder");
-
-    const looks: Array<{
-      name: string;
-      vibe: string;
-      layers: string[];
-      extras: string[];
-      palette: string[];
-    }> = [];
-
-    if (feelsLike >= 85) {
-      looks.push(
-        {
-          name: "Heatwave Minimal",
-          vibe: "Lightweight + breathable",
-          layers: ["Linen tee", "Pleated shorts", "Sandal slip-ons"],
-          extras: ["SPF 50", "Polarized shades", "Cooling mist"],
-          palette: ["Sand", "Seafoam", "White"],
-        },
-        {
-          name: "City Swim",
-          vibe: "Poolside ready",
-          layers: ["Tank or bandeau", "Relaxed button-down", "Lightweight skirt"],
-          extras: ["Waterproof tote", "Hair clip", "Hydration bottle"],
-          palette: ["Coral", "Sky", "Vanilla"],
-        }
-      );
-    } else if (feelsLike >= 65) {
-      looks.push(
-        {
-          name: "Golden Hour",
-          vibe: "Soft layers",
-          layers: ["Knit tee", "Wide-leg trousers", "Low-profile sneakers"],
-          extras: ["Light scarf", "Crossbody", "Lip balm"],
-          palette: ["Oat", "Terracotta", "Soft navy"],
-        },
-        {
-          name: "Weekend Air",
-          vibe: "Easy + fresh",
-          layers: ["Oversized shirt", "Bike shorts", "Crew socks"],
-          extras: ["Bucket hat", "Mini tote", "Gloss"],
-          palette: ["Cloud", "Mint", "Graphite"],
-        }
-      );
-    } else if (feelsLike >= 45) {
-      looks.push(
-        {
-          name: "Crisp Layer",
-          vibe: "Clean + structured",
-          layers: ["Mock-neck top", "Trench or chore jacket", "Straight denim"],
-          extras: ["Leather belt", "Medium tote", "Light beanie"],
-          palette: ["Stone", "Moss", "Ink"],
-        },
-        {
-          name: "Studio Walk",
-          vibe: "Sport luxe",
-          layers: ["Cropped hoodie", "Cargo skirt", "High-top sneakers"],
-          extras: ["Sleek cap", "Earbuds", "Thermal flask"],
-          palette: ["Pebble", "Pine", "Black"],
-        }
-      );
-    } else if (feelsLike >= 25) {
-      looks.push(
-        {
-          name: "Cold Front",
-          vibe: "Warm but sleek",
-          layers: ["Thermal base", "Puffer coat", "Wool trousers"],
-          extras: ["Cashmere scarf", "Touchscreen gloves", "Hand cream"],
-          palette: ["Charcoal", "Ice", "Cobalt"],
-        },
-        {
-          name: "Night Shift",
-          vibe: "Moody cozy",
-          layers: ["Ribbed turtleneck", "Longline coat", "Chunky boots"],
-          extras: ["Beanie", "Tote", "Layered rings"],
-          palette: ["Onyx", "Smoke", "Plum"],
-        }
-      );
-    } else {
-      looks.push(
-        {
-          name: "Frost Mode",
-          vibe: "Insulated + bold",
-          layers: ["Thermal set", "Down parka", "Snow boots"],
-          extras: ["Neck gaiter", "Heat packs", "Insulated bottle"],
-          palette: ["Midnight", "Arctic blue", "Steel"],
-        },
-        {
-          name: "Polar Luxe",
-          vibe: "Luxury warmth",
-          layers: ["Wool base", "Shearling jacket", "Fleece-lined leggings"],
-          extras: ["Ear warmers", "Leather gloves", "Cabin socks"],
-          palette: ["Espresso", "Ivory", "Deep teal"],
-        }
-      );
-    }
-
-    if (wet || stormy || snowy) {
-      looks.push({
-        name: snowy ? "Snow Drift" : "Rain Shield",
-        vibe: "Weatherproof",
-        layers: [
-          "Waterproof shell",
-          "Grip-sole boots",
-          "Quick-dry layers",
-        ],
-        extras: [
-          snowy ? "Thermal hat" : "Compact umbrella",
-          snowy ? "Snow gaiters" : "Waterproof tote",
-          "Reflective detail",
-        ],
-        palette: ["Slate", "Midnight", "Neon accent"],
-      });
-    }
-
-    if (windy) {
-      looks.push({
-        name: "Wind Runner",
-        vibe: "Secure + tucked",
-        layers: ["Windbreaker", "Slim jogger", "High-top sneakers"],
-        extras: ["Hair ties", "Zip pockets", "Lightweight gloves"],
-        palette: ["Carbon", "Olive", "Sand"],
-      });
-    }
-
-    return looks;
-  }, [weather.current]);
+  const outfitLooks = useMemo(
+    () => getOutfitLooks(weather.current),
+    [weather.current]
+  );
 
   const [lookIndex, setLookIndex] = useState(0);
   const [savedLooks, setSavedLooks] = useState<string[]>([]);
@@ -743,10 +655,11 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
               </button>
               <button
                 className={`unit-toggle px-3 py-1.5 rounded-xl text-sm font-semibold ${
-                  unit === "C" ? "unit-active" : ""
+                  unitSystem === "metric" ? "unit-active" : ""
                 }`}
+                title="Metric units (°C, km/h, hPa)"
                 onClick={() => {
-                  setUnit("C");
+                  setUnitSystem("metric");
                   setUnitChosen(true);
                 }}
               >
@@ -754,10 +667,11 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
               </button>
               <button
                 className={`unit-toggle px-3 py-1.5 rounded-xl text-sm font-semibold ${
-                  unit === "F" ? "unit-active" : ""
+                  unitSystem === "imperial" ? "unit-active" : ""
                 }`}
+                title="Imperial units (°F, mph, inHg)"
                 onClick={() => {
-                  setUnit("F");
+                  setUnitSystem("imperial");
                   setUnitChosen(true);
                 }}
               >
@@ -841,32 +755,36 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                     <div>
                       <p className="text-sm font-semibold">Choose units</p>
                       <p className="text-xs text-white/50 mt-1">
-                        Pick Fahrenheit or Celsius.
+                        Pick imperial (°F, mph) or metric (°C, km/h).
                       </p>
                       <div className="flex gap-2 mt-3">
                         <button
                           type="button"
                           onClick={() => {
-                            setUnit("F");
+                            setUnitSystem("imperial");
                             setUnitChosen(true);
                           }}
                           className={`px-3 py-1.5 rounded-xl text-xs font-semibold transition-all ${
-                            unit === "F" ? "bg-white/25" : "bg-white/10 hover:bg-white/20"
+                            unitSystem === "imperial"
+                              ? "bg-white/25"
+                              : "bg-white/10 hover:bg-white/20"
                           }`}
                         >
-                          °F
+                          Imperial
                         </button>
                         <button
                           type="button"
                           onClick={() => {
-                            setUnit("C");
+                            setUnitSystem("metric");
                             setUnitChosen(true);
                           }}
                           className={`px-3 py-1.5 rounded-xl text-xs font-semibold transition-all ${
-                            unit === "C" ? "bg-white/25" : "bg-white/10 hover:bg-white/20"
+                            unitSystem === "metric"
+                              ? "bg-white/25"
+                              : "bg-white/10 hover:bg-white/20"
                           }`}
                         >
-                          °C
+                          Metric
                         </button>
                       </div>
                     </div>
@@ -881,7 +799,7 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                     <div>
                       <p className="text-sm font-semibold">Daily briefing</p>
                       <p className="text-xs text-white/50 mt-1">
-                        Get the 7:00 AM email for your city.
+                        Get a morning email for your city, at the hour you choose.
                       </p>
                       <button
                         type="button"
@@ -905,6 +823,42 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
               {notice}
             </div>
           ) : null}
+          {visibleAlerts.length > 0 ? (
+            <section className="mb-6 space-y-3" aria-label="Active weather alerts">
+              {visibleAlerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  role="alert"
+                  className={`glass rounded-2xl p-4 border ${alertSeverityClass[alert.severity]}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-lg">⚠️</span>
+                        <p className="font-semibold">{alert.event}</p>
+                        <span className="hero-pill">{alert.severity}</span>
+                        <span className="hero-pill">{alert.urgency}</span>
+                      </div>
+                      <p className="text-sm text-white/80 mt-2">{alert.headline}</p>
+                      <p className="text-xs text-white/50 mt-1">
+                        {[formatAlertWindow(alert.onset, alert.expires), alert.areaDesc]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => dismissAlert(alert.id)}
+                      className="px-2 py-1 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/10 transition-all"
+                      aria-label={`Dismiss ${alert.event}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          ) : null}
           <section className="fade-in-up mb-8">
             <div className="glass rounded-3xl p-6 sm:p-10 pulse-glow">
               <div className="flex flex-col lg:flex-row items-center justify-between gap-8">
@@ -922,18 +876,40 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                       Updated {formatTime(updatedAt)}
                     </span>
                     <span className="hero-pill">{meta.source}</span>
+                    <span className="hero-pill">
+                      {weather.provider === "nws" ? "NWS" : "Open-Meteo"}
+                    </span>
+                    <span
+                      className="hero-pill"
+                      title={weather.current.station?.name ?? undefined}
+                    >
+                      {weather.current.station
+                        ? [
+                            `Observed at ${weather.current.station.id}`,
+                            weather.current.station.distanceMiles !== null &&
+                              formatDistance(
+                                weather.current.station.distanceMiles,
+                                units
+                              ),
+                            `${weather.current.station.ageMinutes} min ago`,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")
+                        : "Forecast estimate"}
+                    </span>
+                    {meta.circuit !== "closed" && (
+                      <span className="hero-pill">NWS degraded</span>
+                    )}
                   </div>
                   <p className="text-white/60 text-sm font-medium mb-6">
                     Forecast studio for your day — tuned for feel, not just the numbers.
                   </p>
                   <div className="flex items-start gap-2 justify-center lg:justify-start">
                     <span className="text-8xl sm:text-9xl font-extralight temp-display leading-none">
-                      {formatTemp(weather.current.temperatureF, unit)
-                        .replace("°F", "")
-                        .replace("°C", "")}
+                      {convertTemperature(weather.current.temperatureF, units) ?? "—"}
                     </span>
                     <span className="text-3xl font-light text-white/70 mt-2">
-                      {unit === "F" ? "°F" : "°C"}
+                      °{units.temperature}
                     </span>
                   </div>
                   <div className="mt-4 flex items-center gap-4 justify-center lg:justify-start">
@@ -942,13 +918,13 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                     </span>
                     <span className="text-white/40">|</span>
                     <span className="text-sm text-white/60">
-                      Feels like {formatTemp(weather.current.feelsLikeF, unit)}
+                      Feels like {formatTemperature(weather.current.feelsLikeF, units)}
                     </span>
                   </div>
                   <div className="mt-3 flex flex-wrap items-center gap-3 justify-center lg:justify-start text-sm text-white/50">
                     <span>{summary}</span>
                     <span className="hero-pill">
-                      Wind {weather.current.windSpeedMph ?? "—"} mph
+                      Wind {formatSpeed(weather.current.windSpeedMph, units)}
                     </span>
                     <span className="hero-pill">
                       Humidity {weather.current.humidity ?? "—"}%
@@ -984,13 +960,18 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                     </p>
                     <div className="text-2xl my-2">{emoji}</div>
                     <p className="text-sm font-bold">
-                      {formatTemp(hour.temperatureF, unit)}
+                      {formatTemperature(hour.temperatureF, units)}
                     </p>
                     <div className="mt-2 flex items-center gap-1 justify-center">
                       <span className="text-xs text-blue-300">
                         {hour.precipChance ?? 0}%
                       </span>
                     </div>
+                    {hour.snowfallIn ? (
+                      <p className="text-[10px] text-white/70 mt-1">❄ {formatSnowfallAmount(hour.snowfallIn, units)}</p>
+                    ) : hour.precipitationIn ? (
+                      <p className="text-[10px] text-blue-200 mt-1">{formatPrecipitationAmount(hour.precipitationIn, units)}</p>
+                    ) : null}
                   </div>
                 )})}
               </div>
@@ -1071,14 +1052,26 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                       highValue === null ? 0 : ((highValue - dailyRange.min) / range) * 100;
                     const barLeft = Math.min(lowPercent, highPercent);
                     const barWidth = Math.max(highPercent - lowPercent, 8);
+                    const snow = formatSnowfall(day.snowfallIn, units);
+                    const rain = formatPrecipitation(day.precipitationIn, units);
                     return (
                     <div key={day.date} className="forecast-card flex items-center gap-3 p-3 rounded-xl">
                       <span className="text-sm font-semibold w-12 text-white/70">
                         {formatDay(day.date)}
                       </span>
-                      <span className="text-lg">{emoji}</span>
+                      <span
+                        className="text-lg"
+                        title={snow ? `${snow} of snow` : rain ? `${rain} of rain` : undefined}
+                      >
+                        {emoji}
+                      </span>
+                      {snow || rain ? (
+                        <span className="text-[10px] text-blue-300 w-14 whitespace-nowrap">
+                          {snow ? `❄ ${snow}` : `💧 ${rain}`}
+                        </span>
+                      ) : null}
                       <span className="text-sm text-white/50 w-8 text-right">
-                        {formatTemp(day.lowF, unit)}
+                        {formatTemperature(day.lowF, units)}
                       </span>
                       <div className="flex-1 h-2 rounded-full bg-white/10 relative mx-2">
                         <div
@@ -1087,7 +1080,7 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                         />
                       </div>
                       <span className="text-sm font-semibold w-8">
-                        {formatTemp(day.highF, unit)}
+                        {formatTemperature(day.highF, units)}
                       </span>
                     </div>
                   )})}
@@ -1109,27 +1102,27 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                   },
                   {
                     label: "Wind",
-                    value: `${weather.current.windSpeedMph ?? "—"} mph`,
+                    value: formatSpeed(weather.current.windSpeedMph, units),
                     desc: weather.current.windDirection ?? "",
                   },
                   {
                     label: "Pressure",
-                    value: `${weather.current.pressureInHg ?? "—"} inHg`,
+                    value: formatPressure(weather.current.pressureInHg, units),
                     desc: "Barometric",
                   },
                   {
                     label: "Visibility",
-                    value: `${weather.current.visibilityMiles ?? "—"} mi`,
+                    value: formatDistance(weather.current.visibilityMiles, units),
                     desc: "Line of sight",
                   },
                   {
                     label: "Dew Point",
-                    value: formatTemp(weather.current.dewPointF, unit),
+                    value: formatTemperature(weather.current.dewPointF, units),
                     desc: "Moisture",
                   },
                   {
                     label: "Feels Like",
-                    value: formatTemp(weather.current.feelsLikeF, unit),
+                    value: formatTemperature(weather.current.feelsLikeF, units),
                     desc: "Apparent",
                   },
                 ].map((detail) => (
@@ -1232,7 +1225,7 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                       Shop this look
                     </button>
                     <span className="text-xs text-white/50">
-                      Tuned for {formatTemp(weather.current.feelsLikeF, unit)} ·{" "}
+                      Tuned for {formatTemperature(weather.current.feelsLikeF, units)} ·{" "}
                       {weather.current.condition}
                     </span>
                   </div>
@@ -1325,10 +1318,11 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
             <div className="glass rounded-2xl p-6 flex flex-col sm:flex-row gap-4 items-center justify-between">
               <div>
                 <p className="text-white/80 font-semibold">
-                  Get a daily summary at 7:00 AM
+                  Get a daily summary each morning at the hour you choose
                 </p>
                 <p className="text-sm text-white/50">
-                  We’ll send the forecast for {weather.location.name}.
+                  We’ll send the forecast for {weather.location.name}, plus
+                  alert emails when the NWS issues a warning.
                 </p>
               </div>
               <form onSubmit={onSubmit} className="flex w-full sm:w-auto gap-2">
@@ -1340,6 +1334,22 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                   className="search-input w-full sm:w-64 px-4 py-3 rounded-2xl text-white placeholder-white/50 outline-none text-sm font-medium"
                   required
                 />
+                <select
+                  value={alertSeverity}
+                  onChange={(event) =>
+                    setAlertSeverity(
+                      event.target.value as Exclude<AlertSeverity, "Unknown">
+                    )
+                  }
+                  className="search-input px-3 py-3 rounded-2xl text-white text-sm font-medium outline-none"
+                  aria-label="Alert emails for"
+                  title="Send severe-weather emails for alerts at or above this level"
+                >
+                  <option value="Extreme">Extreme alerts</option>
+                  <option value="Severe">Severe alerts</option>
+                  <option value="Moderate">Moderate alerts</option>
+                  <option value="Minor">All alerts</option>
+                </select>
                 <button
                   type="submit"
                   className="px-5 py-3 bg-white/20 hover:bg-white/30 rounded-xl text-sm font-semibold transition-all"
@@ -1349,7 +1359,9 @@ export default function WeatherView({ initialWeather, initialMeta }: WeatherView
                 </button>
               </form>
               {subscribeState === "success" ? (
-                <span className="text-xs text-green-200">Subscribed</span>
+                <span className="text-xs text-green-200">
+                  {confirmPending ? "Check your inbox to confirm" : "Subscribed"}
+                </span>
               ) : null}
               {subscribeState === "error" ? (
                 <span className="text-xs text-red-200">Try again</span>
@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import { BROOKLYN, buildScenario, SCENARIO_NOW } from "@/test/scenarios";
+
+const ADMIN_SECRET = "fixture-admin-secret";
+const ADMIN_URL = "https://skyview.test/api/admin/api-keys";
+const WEATHER_URL = `https://skyview.test/api/v1/weather?lat=${BROOKLYN.lat}&lon=${BROOKLYN.lon}`;
+
+let fake: FakeFetch;
+let dataDir: string;
+
+const admin = async (
+  method: "GET" | "POST" | "DELETE",
+  init: { body?: unknown; query?: string } = {}
+) => {
+  const route = await import("@/app/api/admin/api-keys/route");
+  const response = await route[method](
+    new NextRequest(`${ADMIN_URL}${init.query ?? ""}`, {
+      method,
+      headers: { Authorization: `Bearer ${ADMIN_SECRET}` },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+const getWeather = async (headers: Record<string, string> = {}) => {
+  const { GET } = await import("@/app/api/v1/weather/route");
+  return GET(new NextRequest(WEATHER_URL, { headers }));
+};
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+  fake = installFakeFetch(buildScenario("clear"));
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-api-keys-"));
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("API_KEY_FILE_PATH", path.join(dataDir, "api-keys.json"));
+  vi.stubEnv("ADMIN_SECRET", ADMIN_SECRET);
+  vi.stubEnv("API_RATE_LIMIT_ANONYMOUS", "2");
+});
+
+afterEach(async () => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("/api/admin/api-keys", () => {
+  it("requires the admin secret", async () => {
+    const { GET } = await import("@/app/api/admin/api-keys/route");
+    const response = await GET(new NextRequest(ADMIN_URL));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("issues a key that raises the limit and reports its usage", async () => {
+    const issued = await admin("POST", { body: { name: "Dashboard", ratePerMinute: 3 } });
+    expect(issued.status).toBe(201);
+    expect(issued.body.secret).toMatch(/^skv_/);
+    expect(issued.body.key).not.toHaveProperty("hash");
+    const headers = { "X-API-Key": issued.body.secret };
+
+    const responses = [];
+    for (let i = 0; i < 4; i += 1) responses.push(await getWeather(headers));
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200, 429]);
+    expect(responses[0].headers.get("RateLimit-Limit")).toBe("3");
+    expect(responses[0].headers.get("RateLimit-Remaining")).toBe("2");
+    expect(responses[3].headers.get("Retry-After")).toBe("20");
+    expect((await responses[3].json()).error.code).toBe("rate_limited");
+
+    const listed = await admin("GET");
+    expect(listed.body.keys).toEqual([
+      expect.objectContaining({
+        id: issued.body.key.id,
+        name: "Dashboard",
+        usage: { requests: 4, limited: 1, lastUsedAt: SCENARIO_NOW.toISOString() },
+      }),
+    ]);
+  });
+
+  it("batches usage writes and key lookups across a burst", async () => {
+    const issued = await admin("POST", { body: { name: "Busy client" } });
+    const { getApiKeyStore } = await import("@/lib/api-key-store");
+    const store = await getApiKeyStore();
+    const findByHash = vi.spyOn(store, "findByHash");
+    const recordUsage = vi.spyOn(store, "recordUsage");
+    const headers = { "X-API-Key": issued.body.secret };
+
+    for (let i = 0; i < 5; i += 1) await getWeather(headers);
+    expect(findByHash).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(SCENARIO_NOW.getTime() + 30_000);
+    await getWeather(headers);
+    expect(findByHash).toHaveBeenCalledTimes(2);
+    expect(recordUsage).toHaveBeenCalledTimes(2);
+  });
+
+  it("limits anonymous callers per IP, ignoring hops they made up", async () => {
+    // The client invents a new first hop each time; our proxy appends the
+    // address it actually saw.
+    const statuses = [];
+    for (let i = 0; i < 3; i += 1) {
+      const response = await getWeather({ "X-Forwarded-For": `10.0.0.${i}, 203.0.113.7` });
+      statuses.push(response.status);
+    }
+    const fromB = await getWeather({ "X-Forwarded-For": "198.51.100.2" });
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(fromB.status).toBe(200);
+    expect(fromB.headers.get("RateLimit-Policy")).toBe("2;w=60");
+  });
+
+  it("counts the configured number of trusted proxy hops", async () => {
+    vi.stubEnv("API_TRUSTED_PROXY_HOPS", "2");
+    const statuses = [];
+    for (let i = 0; i < 3; i += 1) {
+      const response = await getWeather({
+        "X-Forwarded-For": `10.0.0.${i}, 203.0.113.7, 172.16.0.1`,
+      });
+      statuses.push(response.status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it("rejects revoked and unknown keys", async () => {
+    const issued = await admin("POST", { body: { name: "Old integration" } });
+    const headers = { "X-API-Key": issued.body.secret };
+    expect((await getWeather(headers)).status).toBe(200);
+
+    expect((await admin("DELETE", { query: `?id=${issued.body.key.id}` })).status).toBe(200);
+    expect((await admin("DELETE", { query: `?id=${issued.body.key.id}` })).status).toBe(404);
+
+    const revoked = await getWeather(headers);
+    expect(revoked.status).toBe(401);
+    expect((await revoked.json()).error.code).toBe("invalid_api_key");
+    expect((await getWeather({ "X-API-Key": "skv_not-a-key" })).status).toBe(401);
+  });
+
+  it.each([
+    [{}, "Name is required"],
+    [{ name: "x".repeat(81) }, "Name is required"],
+    [{ name: "Bot", ratePerMinute: 0 }, "ratePerMinute"],
+    [{ name: "Bot", ratePerMinute: 2.5 }, "ratePerMinute"],
+  ])("rejects %j", async (body, message) => {
+    const { status, body: response } = await admin("POST", { body });
+
+    expect(status).toBe(400);
+    expect(response.error).toContain(message);
+  });
+});
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  flushApiKeyUsage,
+  isRatePerMinute,
+  issueApiKey,
+  listApiKeys,
+  MAX_API_KEY_NAME_LENGTH,
+  revokeApiKey,
+} from "@/lib/api-keys";
+import { requireRole } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+
+type IssueRequest = {
+  name?: string;
+  ratePerMinute?: number | null;
+};
+
+// Usage counts include whatever this instance has not yet written out; other
+// instances' pending counts show up once they flush.
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, "admin");
+  if (denied) return denied;
+
+  try {
+    await flushApiKeyUsage();
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to read API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, "admin");
+  if (denied) return denied;
+
+  let body: IssueRequest;
+  try {
+    body = (await request.json()) as IssueRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_API_KEY_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Name is required (up to ${MAX_API_KEY_NAME_LENGTH} characters)` },
+      { status: 400 }
+    );
+  }
+  const ratePerMinute = body.ratePerMinute ?? null;
+  if (ratePerMinute !== null && !isRatePerMinute(ratePerMinute)) {
+    return NextResponse.json(
+      { error: "ratePerMinute must be a whole number from 1 to 10000" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // The secret is only ever shown in this response.
+    return NextResponse.json(
+      await issueApiKey({ name, ratePerMinute }),
+      { status: 201 }
+    );
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to issue API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = requireRole(request, "admin");
+  if (denied) return denied;
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await revokeApiKey(id))) {
+      return NextResponse.json(
+        { error: "No active API key with that id" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/cron-auth";
+import { getWeatherCacheStats } from "@/lib/weather-pipeline";
+
+export const runtime = "nodejs";
+
+// Counters are per instance and reset on cold start; `entries` reflects the
+// configured store, which may be shared.
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, "admin");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(await getWeatherCacheStats());
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to read cache stats" },
+      { status: 500 }
+    );
+  }
+}
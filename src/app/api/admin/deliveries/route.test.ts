@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DeliveryAttempt } from "@/lib/delivery-log";
+
+const ADMIN_SECRET = "fixture-admin-secret";
+
+const attempt = (id: string, email: string, attemptedAt: string): DeliveryAttempt => ({
+  id,
+  email,
+  sendOn: attemptedAt.slice(0, 10),
+  attempt: 1,
+  status: "sent",
+  attemptedAt,
+});
+
+let dataDir: string;
+
+const getDeliveries = async (query = "", secret = ADMIN_SECRET) => {
+  const { GET } = await import("@/app/api/admin/deliveries/route");
+  const response = await GET(
+    new NextRequest(`https://skyview.test/api/admin/deliveries${query}`, {
+      headers: { Authorization: `Bearer ${secret}` },
+    })
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-14T13:00:00Z"));
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-deliveries-"));
+  await fs.writeFile(
+    path.join(dataDir, "delivery-log.json"),
+    JSON.stringify({
+      attempts: [
+        attempt("a", "reader@example.com", "2026-01-12T13:00:00.000Z"),
+        attempt("b", "other@example.com", "2026-01-13T13:00:00.000Z"),
+        attempt("c", "reader@example.com", "2026-01-14T13:00:00.000Z"),
+      ],
+    })
+  );
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("DELIVERY_LOG_PATH", path.join(dataDir, "delivery-log.json"));
+  vi.stubEnv("ADMIN_SECRET", ADMIN_SECRET);
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("GET /api/admin/deliveries", () => {
+  it("lists attempts newest first, filtered by address", async () => {
+    const all = await getDeliveries();
+    const reader = await getDeliveries("?email=Reader@Example.com&limit=1");
+
+    expect(all.body.attempts.map((entry: DeliveryAttempt) => entry.id)).toEqual([
+      "c",
+      "b",
+      "a",
+    ]);
+    expect(reader.body.attempts.map((entry: DeliveryAttempt) => entry.id)).toEqual(["c"]);
+  });
+
+  it("requires the admin secret and a sane limit", async () => {
+    expect((await getDeliveries("", "wrong")).status).toBe(401);
+    expect((await getDeliveries("?limit=0")).status).toBe(400);
+  });
+});
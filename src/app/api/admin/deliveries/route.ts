@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/cron-auth";
+import { getDeliveryLog } from "@/lib/delivery-log";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Newest attempts first, optionally for one address: `?email=&limit=`.
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, "admin");
+  if (denied) return denied;
+
+  const { searchParams } = request.nextUrl;
+  const email = searchParams.get("email")?.trim().toLowerCase() || undefined;
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deliveryLog = await getDeliveryLog();
+    return NextResponse.json({
+      attempts: await deliveryLog.listAttempts({ email, limit }),
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to read the delivery log" },
+      { status: 500 }
+    );
+  }
+}
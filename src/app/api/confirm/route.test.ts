@@ -0,0 +1,87 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BROOKLYN, SCENARIO_NOW } from "@/test/scenarios";
+import { LATEST_SUBSCRIBER_VERSION } from "@/lib/subscriber-migrations";
+import type { Subscriber } from "@/lib/subscribers";
+
+const pending: Subscriber = {
+  email: "reader@example.com",
+  location: BROOKLYN,
+  units: "imperial",
+  timezone: "America/New_York",
+  minAlertSeverity: "Severe",
+  token: "fixture-token",
+  subscribedAt: "2026-01-14T12:55:00.000Z",
+  sentAlertIds: [],
+  status: "pending",
+  confirmToken: "fixture-confirm-token",
+  confirmSentAt: "2026-01-14T12:55:00.000Z",
+  deliveryHour: 8,
+  deliveryDays: [],
+  paused: false,
+};
+
+let dataDir: string;
+
+const readSubscribers = async () => {
+  const contents = await fs.readFile(path.join(dataDir, "subscribers.json"), "utf-8");
+  return (JSON.parse(contents) as { subscribers: Subscriber[] }).subscribers;
+};
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-confirm-"));
+  await fs.writeFile(
+    path.join(dataDir, "subscribers.json"),
+    JSON.stringify({ version: LATEST_SUBSCRIBER_VERSION, subscribers: [pending] })
+  );
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("SUBSCRIBER_FILE_PATH", path.join(dataDir, "subscribers.json"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("/api/confirm", () => {
+  it("only asks on GET, so a link scanner cannot confirm", async () => {
+    const { GET } = await import("@/app/api/confirm/route");
+    const response = await GET(
+      new NextRequest("https://skyview.test/api/confirm?token=fixture-confirm-token")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/html");
+    expect(await response.text()).toContain('action="/api/confirm"');
+    expect((await readSubscribers())[0].status).toBe("pending");
+  });
+
+  it("activates the subscription when the form is posted", async () => {
+    const { POST } = await import("@/app/api/confirm/route");
+    const response = await POST(
+      new NextRequest("https://skyview.test/api/confirm", {
+        method: "POST",
+        headers: {
+          Accept: "text/html",
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "token=fixture-confirm-token",
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("You’re subscribed");
+    const [stored] = await readSubscribers();
+    expect(stored.status).toBe("active");
+    expect(stored.confirmedAt).toBe(SCENARIO_NOW.toISOString());
+  });
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  confirmSubscriber,
+  findPendingByConfirmToken,
+} from "@/lib/subscribers";
+import { html } from "@/lib/html";
+import { readToken, renderPage, wantsHtml } from "@/lib/html-page";
+
+export const runtime = "nodejs";
+
+const renderExpired = () =>
+  renderPage(
+    "Link expired",
+    html`<p style="margin:0; color:#cbd5e1;">This confirmation link is no longer valid. Subscribe again to get a new one.</p>`,
+    404
+  );
+
+// Link scanners prefetch GET URLs, so GET only asks for confirmation; the
+// subscription starts when the form is posted.
+export async function GET(request: NextRequest) {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    return renderPage(
+      "Missing link",
+      html`<p style="margin:0; color:#cbd5e1;">Use the confirmation link from your SkyView email.</p>`,
+      400
+    );
+  }
+
+  try {
+    const subscriber = await findPendingByConfirmToken(token);
+    if (!subscriber) return renderExpired();
+
+    return renderPage(
+      "Confirm your subscription",
+      html`<p style="margin:0 0 20px; color:#cbd5e1;">Start SkyView emails for ${subscriber.location?.name ?? "New York, NY"} at ${subscriber.email}.</p>
+      <form method="post" action="/api/confirm">
+        <input type="hidden" name="token" value="${token}" />
+        <button type="submit" style="padding:12px 20px; border:0; border-radius:12px; background:#f8fafc; color:#0f172a; font-weight:600; cursor:pointer;">Confirm subscription</button>
+      </form>`
+    );
+  } catch {
+    return renderPage(
+      "Something went wrong",
+      html`<p style="margin:0; color:#cbd5e1;">Please try again in a few minutes.</p>`,
+      500
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = await readToken(request);
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  try {
+    const confirmed = await confirmSubscriber(token);
+    if (wantsHtml(request)) {
+      return confirmed
+        ? renderPage(
+            "You’re subscribed",
+            html`<p style="margin:0; color:#cbd5e1;">Your first SkyView email arrives at your chosen hour.</p>`
+          )
+        : renderExpired();
+    }
+    if (!confirmed) {
+      return NextResponse.json(
+        { error: "Invalid or expired token" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch {
+    return NextResponse.json({ error: "Unable to confirm" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/geocode/route";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import { buildScenario, OPEN_METEO_ENDPOINTS } from "@/test/scenarios";
+
+let fake: FakeFetch;
+
+const geocode = async (query: string) => {
+  const response = await GET(
+    new NextRequest(
+      `https://skyview.test/api/geocode?query=${encodeURIComponent(query)}`
+    )
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+afterEach(() => {
+  expect(fake.unmatched).toEqual([]);
+  vi.unstubAllGlobals();
+});
+
+describe("GET /api/geocode", () => {
+  it("maps Open-Meteo results to coordinates", async () => {
+    fake = installFakeFetch(buildScenario("clear"));
+    const { status, body } = await geocode("Brooklyn");
+
+    expect(status).toBe(200);
+    expect(body.results[0]).toEqual({
+      name: "Brooklyn",
+      admin1: "New York",
+      country: "United States",
+      lat: 40.6501,
+      lon: -73.94958,
+    });
+    expect(fake.requests[0].url).toContain("name=Brooklyn");
+  });
+
+  it("skips the lookup for one-letter queries", async () => {
+    fake = installFakeFetch([]);
+    expect(await geocode("B")).toEqual({ status: 200, body: { results: [] } });
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("returns 502 when the geocoder fails", async () => {
+    fake = installFakeFetch([
+      { url: OPEN_METEO_ENDPOINTS.geocode, reply: { status: 503 } },
+    ]);
+    const { status, body } = await geocode("Brooklyn");
+
+    expect(status).toBe(502);
+    expect(body).toEqual({ error: "Unable to geocode location." });
+  });
+});
@@ -23,7 +23,6 @@ export async function GET(request: NextRequest) {
   url.searchParams.set("count", "6");
   url.searchParams.set("language", "en");
   url.searchParams.set("format", "json");
-  url.searchParams.set("country", "US");
 
   try {
     const response = await fetch(url.toString(), { next: { revalidate: 3600 } });
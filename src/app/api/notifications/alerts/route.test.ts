@@ -0,0 +1,187 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import {
+  BROOKLYN,
+  buildScenario,
+  RESEND_ENDPOINT,
+  SCENARIO_NOW,
+} from "@/test/scenarios";
+import { LATEST_SUBSCRIBER_VERSION } from "@/lib/subscriber-migrations";
+import type { Subscriber } from "@/lib/subscribers";
+
+const CRON_SECRET = "fixture-cron-secret";
+
+const subscriber: Subscriber = {
+  email: "reader@example.com",
+  location: BROOKLYN,
+  units: "imperial",
+  timezone: "America/New_York",
+  minAlertSeverity: "Severe",
+  token: "fixture-token",
+  subscribedAt: "2025-11-02T14:00:00.000Z",
+  sentAlertIds: [],
+  status: "active",
+  confirmedAt: "2025-11-02T14:05:00.000Z",
+  deliveryHour: 8,
+  deliveryDays: [],
+  paused: false,
+};
+
+let fake: FakeFetch;
+let dataDir: string;
+
+const readSubscribers = async () => {
+  const contents = await fs.readFile(path.join(dataDir, "subscribers.json"), "utf-8");
+  return (JSON.parse(contents) as { subscribers: Subscriber[] }).subscribers;
+};
+
+const cronRequest = () =>
+  new NextRequest("https://skyview.test/api/notifications/alerts", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${CRON_SECRET}` },
+  });
+
+const runAlerts = async () => {
+  const { POST } = await import("@/app/api/notifications/alerts/route");
+  const response = await POST(cronRequest());
+  return { status: response.status, body: await response.json() };
+};
+
+const resendRequests = () =>
+  fake.requests.filter((request) => request.url === `https://${RESEND_ENDPOINT}`);
+
+const sentCount = () => resendRequests().length;
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-alerts-"));
+  await fs.writeFile(
+    path.join(dataDir, "subscribers.json"),
+    JSON.stringify({
+      version: LATEST_SUBSCRIBER_VERSION,
+      subscribers: [subscriber],
+    })
+  );
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("SUBSCRIBER_FILE_PATH", path.join(dataDir, "subscribers.json"));
+  vi.stubEnv("DELIVERY_LOG_PATH", path.join(dataDir, "delivery-log.json"));
+  vi.stubEnv("EMAIL_TRANSPORT", "resend");
+  vi.stubEnv("RESEND_API_KEY", "re_fixture_key");
+  vi.stubEnv("EMAIL_FROM", "SkyView <skyview@example.com>");
+  vi.stubEnv("EMAIL_RATE_PER_SECOND", "0");
+  vi.stubEnv("APP_URL", "https://skyview.test");
+  vi.stubEnv("CRON_SECRET", CRON_SECRET);
+  vi.stubEnv("ADMIN_SECRET", "");
+});
+
+afterEach(async () => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("alert notifications", () => {
+  it("sends each active alert once through the dispatcher", async () => {
+    fake = installFakeFetch(buildScenario("hurricane"));
+
+    const first = await runAlerts();
+    const [stored] = await readSubscribers();
+    const second = await runAlerts();
+
+    expect(first.body).toEqual({ ok: true, sent: 1, failed: 0, remaining: 0 });
+    expect(stored.sentAlertIds.length).toBeGreaterThan(0);
+    expect(second.body).toEqual({ ok: true, sent: 0, failed: 0, remaining: 0 });
+    expect(sentCount()).toBe(1);
+  });
+
+  it("leaves the record alone when the send fails so the next run retries", async () => {
+    fake = installFakeFetch(buildScenario("hurricane"));
+    fake.use([
+      { url: RESEND_ENDPOINT, reply: { status: 500, body: { message: "down" } } },
+    ]);
+
+    const { body } = await runAlerts();
+    const [stored] = await readSubscribers();
+
+    expect(body).toMatchObject({ ok: true, sent: 0, failed: 1 });
+    expect(stored.sentAlertIds).toEqual([]);
+  });
+
+  it("lets only one of two overlapping runs send", async () => {
+    fake = installFakeFetch(buildScenario("hurricane"));
+    const { POST } = await import("@/app/api/notifications/alerts/route");
+    const bodies = await Promise.all(
+      [POST(cronRequest()), POST(cronRequest())].map(async (response) =>
+        (await response).json()
+      )
+    );
+
+    expect(bodies).toContainEqual({ ok: true, inProgress: true, sent: 0 });
+    expect(bodies).toContainEqual(expect.objectContaining({ sent: 1 }));
+    expect(sentCount()).toBe(1);
+  });
+
+  it("does not repeat alerts a run killed mid-dispatch had delivered", async () => {
+    const second = { ...subscriber, email: "second@example.com", token: "second-token" };
+    await fs.writeFile(
+      path.join(dataDir, "subscribers.json"),
+      JSON.stringify({
+        version: LATEST_SUBSCRIBER_VERSION,
+        subscribers: [subscriber, second],
+      })
+    );
+    vi.stubEnv("EMAIL_CONCURRENCY", "1");
+
+    // The second send never answers, standing in for the function being
+    // killed before the dispatch returns.
+    let release = () => {};
+    const hung = new Promise<void>((resolve) => (release = resolve));
+    fake = installFakeFetch(buildScenario("hurricane"));
+    fake.use([
+      {
+        url: RESEND_ENDPOINT,
+        reply: async (request) => {
+          const { to } = (await request.clone().json()) as { to: string };
+          if (to === second.email) {
+            await hung;
+            return { error: "network" };
+          }
+          return { body: { id: `email-${to}` } };
+        },
+      },
+    ]);
+    const { POST } = await import("@/app/api/notifications/alerts/route");
+    const killed = POST(cronRequest());
+    await vi.waitFor(async () => {
+      const [first] = await readSubscribers();
+      expect(first.sentAlertIds.length).toBeGreaterThan(0);
+    });
+
+    // The next scheduled run finds the dead run's lease expired.
+    vi.setSystemTime(new Date(SCENARIO_NOW.getTime() + 15 * 60 * 1000));
+    vi.resetModules();
+    fake.use([{ url: RESEND_ENDPOINT, reply: { body: { id: "email-retry" } } }]);
+    const { body } = await runAlerts();
+    const recipients = await Promise.all(
+      resendRequests().map(
+        async (request) => ((await request.json()) as { to: string }).to
+      )
+    );
+
+    expect(body).toMatchObject({ ok: true, sent: 1 });
+    expect(recipients).toEqual([subscriber.email, second.email, second.email]);
+
+    release();
+    await killed;
+  });
+});
@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/cron-auth";
+import {
+  listSubscribers,
+  updateSubscribers,
+  type Subscriber,
+} from "@/lib/subscribers";
+import { EmailRateLimitError, sendEmail } from "@/lib/email";
+import { dispatch, resolveDispatchOptions } from "@/lib/email-dispatcher";
+import { getDeliveryLog, type DeliveryLog } from "@/lib/delivery-log";
+import { renderAlertEmail } from "@/lib/email-template";
+import { resolveTimeZone } from "@/lib/delivery-schedule";
+import {
+  buildListUnsubscribeHeaders,
+  buildPreferencesUrl,
+  buildUnsubscribeUrl,
+  resolveBaseUrl,
+} from "@/lib/notifications";
+import { meetsAlertSeverity, NYC_COORDS, type WeatherAlert } from "@/lib/nws";
+import { getAlertsByCoords } from "@/lib/weather-pipeline";
+
+export const runtime = "nodejs";
+
+// Outlasts the dispatch budget but not the 15-minute schedule, so a run that
+// died holding the lease does not block the next one.
+const RUN_LEASE_MS = 10 * 60 * 1000;
+
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, "cron");
+  if (denied) return denied;
+
+  const now = new Date();
+  const leaseOwner = crypto.randomUUID();
+  let deliveryLog: DeliveryLog | null = null;
+
+  try {
+    deliveryLog = await getDeliveryLog();
+    if (
+      !(await deliveryLog.claimRun(
+        {
+          run: "alerts",
+          owner: leaseOwner,
+          expiresAt: new Date(now.getTime() + RUN_LEASE_MS).toISOString(),
+        },
+        now.toISOString()
+      ))
+    ) {
+      // A manual and a scheduled run overlapped; the other one is sending.
+      return NextResponse.json({ ok: true, inProgress: true, sent: 0 });
+    }
+
+    const subscribers = (await listSubscribers()).filter(
+      (subscriber) => subscriber.status === "active" && !subscriber.paused
+    );
+    if (subscribers.length === 0) {
+      return NextResponse.json({ ok: true, sent: 0 });
+    }
+
+    const baseUrl = resolveBaseUrl();
+    const alertsCache = new Map<string, WeatherAlert[]>();
+
+    const getAlertsForSubscriber = async (subscriber: Subscriber) => {
+      const { lat, lon } = subscriber.location ?? NYC_COORDS;
+      const key = `${lat.toFixed(3)},${lon.toFixed(3)}`;
+      if (!alertsCache.has(key)) {
+        alertsCache.set(key, await getAlertsByCoords(lat, lon));
+      }
+      return alertsCache.get(key)!;
+    };
+
+    // Work out who has something new before sending anything, so the
+    // dispatcher only paces real emails.
+    const planned = await Promise.allSettled(
+      subscribers.map(async (subscriber) => {
+        const active = await getAlertsForSubscriber(subscriber);
+        const activeIds = new Set(active.map((alert) => alert.id));
+        // Expired alerts are pruned so the record only tracks what is active.
+        const alreadySent = subscriber.sentAlertIds.filter((id) =>
+          activeIds.has(id)
+        );
+        const fresh = active.filter(
+          (alert) =>
+            meetsAlertSeverity(alert, subscriber.minAlertSeverity) &&
+            !alreadySent.includes(alert.id)
+        );
+        return { subscriber, alreadySent, fresh };
+      })
+    );
+    const plans = planned
+      .filter((result) => result.status === "fulfilled")
+      .map((result) => result.value);
+
+    const { results: outcomes, remaining } = await dispatch(
+      plans.filter((plan) => plan.fresh.length > 0),
+      async ({ subscriber, alreadySent, fresh }) => {
+        try {
+          const email = renderAlertEmail({
+            alerts: fresh,
+            locationName: subscriber.location?.name ?? "New York, NY",
+            timeZone: resolveTimeZone(subscriber.timezone),
+            unsubscribeUrl: buildUnsubscribeUrl(baseUrl, subscriber.token),
+            preferencesUrl: buildPreferencesUrl(baseUrl, subscriber.token),
+          });
+          await sendEmail({
+            to: subscriber.email,
+            ...email,
+            headers: buildListUnsubscribeHeaders(baseUrl, subscriber.token),
+          });
+        } catch (error) {
+          // Rate limits are retried by the dispatcher; other failures leave
+          // the record alone so the next run tries again.
+          if (error instanceof EmailRateLimitError) throw error;
+          return false;
+        }
+        // Saved straight away, so a run cut short does not repeat the alerts
+        // it already delivered.
+        await updateSubscribers([
+          {
+            email: subscriber.email,
+            changes: {
+              sentAlertIds: [...alreadySent, ...fresh.map((alert) => alert.id)],
+            },
+          },
+        ]);
+        return true;
+      },
+      resolveDispatchOptions()
+    );
+
+    const sent = outcomes.filter(Boolean).length;
+    const pruned = plans
+      .filter(
+        ({ subscriber, alreadySent, fresh }) =>
+          fresh.length === 0 &&
+          alreadySent.length !== subscriber.sentAlertIds.length
+      )
+      .map(({ subscriber, alreadySent }) => ({
+        email: subscriber.email,
+        sentAlertIds: alreadySent,
+      }));
+    await updateSubscribers(
+      pruned.map(({ email, sentAlertIds }) => ({
+        email,
+        changes: { sentAlertIds },
+      }))
+    );
+
+    const failed = planned.length - plans.length + outcomes.length - sent;
+
+    return NextResponse.json({
+      ok: true,
+      sent,
+      failed,
+      remaining: remaining.length,
+    });
+  } catch {
+    return NextResponse.json({ error: "Failed to send alerts" }, { status: 500 });
+  } finally {
+    if (deliveryLog) {
+      await deliveryLog.releaseRun(leaseOwner).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import {
+  BROOKLYN,
+  buildScenario,
+  RESEND_ENDPOINT,
+  SCENARIO_NOW,
+  type ScenarioName,
+} from "@/test/scenarios";
+import { LATEST_SUBSCRIBER_VERSION } from "@/lib/subscriber-migrations";
+import type { Subscriber } from "@/lib/subscribers";
+
+const CRON_SECRET = "fixture-cron-secret";
+
+const subscriber: Subscriber = {
+  email: "reader@example.com",
+  location: BROOKLYN,
+  units: "imperial",
+  timezone: "America/New_York",
+  minAlertSeverity: "Severe",
+  token: "fixture-token",
+  subscribedAt: "2025-11-02T14:00:00.000Z",
+  sentAlertIds: [],
+  status: "active",
+  confirmedAt: "2025-11-02T14:05:00.000Z",
+  deliveryHour: 8,
+  deliveryDays: [],
+  paused: false,
+};
+
+let fake: FakeFetch;
+let dataDir: string;
+
+const readSubscribers = async () => {
+  const contents = await fs.readFile(path.join(dataDir, "subscribers.json"), "utf-8");
+  return (JSON.parse(contents) as { subscribers: Subscriber[] }).subscribers;
+};
+
+const cronRequest = () =>
+  new NextRequest("https://skyview.test/api/notifications/daily", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${CRON_SECRET}` },
+  });
+
+const sentEmails = () =>
+  Promise.all(
+    fake.requests
+      .filter((request) => request.url === `https://${RESEND_ENDPOINT}`)
+      .map(
+        (request) =>
+          request.json() as Promise<{ to: string; subject: string; text: string }>
+      )
+  );
+
+const writeDeliveryLog = (document: object) =>
+  fs.writeFile(path.join(dataDir, "delivery-log.json"), JSON.stringify(document));
+
+// Runs the cron endpoint against a scenario and returns the JSON response
+// alongside what was handed to Resend.
+const runDaily = async (scenario: ScenarioName) => {
+  fake = installFakeFetch(buildScenario(scenario));
+  const { POST } = await import("@/app/api/notifications/daily/route");
+  const response = await POST(cronRequest());
+  return {
+    status: response.status,
+    body: await response.json(),
+    emails: await sentEmails(),
+  };
+};
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-daily-"));
+  await fs.writeFile(
+    path.join(dataDir, "subscribers.json"),
+    JSON.stringify({
+      version: LATEST_SUBSCRIBER_VERSION,
+      subscribers: [subscriber],
+    })
+  );
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("SUBSCRIBER_FILE_PATH", path.join(dataDir, "subscribers.json"));
+  vi.stubEnv("DELIVERY_LOG_PATH", path.join(dataDir, "delivery-log.json"));
+  vi.stubEnv("EMAIL_TRANSPORT", "resend");
+  vi.stubEnv("RESEND_API_KEY", "re_fixture_key");
+  vi.stubEnv("EMAIL_FROM", "SkyView <skyview@example.com>");
+  vi.stubEnv("EMAIL_RATE_PER_SECOND", "0");
+  vi.stubEnv("APP_URL", "https://skyview.test");
+  vi.stubEnv("CRON_SECRET", CRON_SECRET);
+  vi.stubEnv("ADMIN_SECRET", "");
+});
+
+afterEach(async () => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("daily notifications", () => {
+  it("sends the blizzard morning brief and records the send", async () => {
+    const { status, body, emails } = await runDaily("blizzard");
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ok: true, sent: 1, failed: 0 });
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to).toBe(subscriber.email);
+    expect(emails[0].text).toContain("Expect 13–17 in of snow today");
+    expect(emails[0].text).toContain("Brooklyn, NY");
+
+    const [stored] = await readSubscribers();
+    expect(stored.lastSentOn).toBe("2026-01-14");
+  });
+
+  it("still delivers from Open-Meteo during an NWS outage", async () => {
+    const { body, emails } = await runDaily("nwsOutage");
+
+    expect(body).toMatchObject({ ok: true, sent: 1, failed: 0 });
+    expect(emails[0].text).toContain("27°F");
+  }, 15_000);
+
+  it("skips subscribers who already had today's email", async () => {
+    await runDaily("clear");
+    const { body, emails } = await runDaily("clear");
+
+    expect(body).toMatchObject({ ok: true, sent: 0 });
+    expect(emails).toHaveLength(0);
+  });
+
+  it("lets only one of two overlapping runs send", async () => {
+    fake = installFakeFetch(buildScenario("clear"));
+    const { POST } = await import("@/app/api/notifications/daily/route");
+    const bodies = await Promise.all(
+      [POST(cronRequest()), POST(cronRequest())].map(async (response) =>
+        (await response).json()
+      )
+    );
+
+    expect(bodies).toContainEqual({ ok: true, inProgress: true, sent: 0 });
+    expect(bodies).toContainEqual(expect.objectContaining({ sent: 1 }));
+    expect(await sentEmails()).toHaveLength(1);
+  });
+
+  it("stands down while another run holds the lease, but not once it expires", async () => {
+    const lease = (expiresAt: Date) => ({
+      leases: [{ run: "daily", owner: "other-run", expiresAt: expiresAt.toISOString() }],
+    });
+
+    await writeDeliveryLog(lease(new Date(SCENARIO_NOW.getTime() + 60_000)));
+    const held = await runDaily("clear");
+    expect(held.body).toEqual({ ok: true, inProgress: true, sent: 0 });
+    expect(held.emails).toHaveLength(0);
+
+    await writeDeliveryLog(lease(new Date(SCENARIO_NOW.getTime() - 60_000)));
+    const expired = await runDaily("clear");
+    expect(expired.body).toMatchObject({ ok: true, sent: 1 });
+  });
+
+  it("does not re-send what a run killed mid-dispatch had already sent", async () => {
+    const second = { ...subscriber, email: "second@example.com", token: "second-token" };
+    await fs.writeFile(
+      path.join(dataDir, "subscribers.json"),
+      JSON.stringify({
+        version: LATEST_SUBSCRIBER_VERSION,
+        subscribers: [subscriber, second],
+      })
+    );
+    vi.stubEnv("EMAIL_CONCURRENCY", "1");
+
+    // The second send never answers, standing in for the function being
+    // killed before the dispatch returns.
+    let release = () => {};
+    const hung = new Promise<void>((resolve) => (release = resolve));
+    fake = installFakeFetch(buildScenario("clear"));
+    fake.use([
+      {
+        url: RESEND_ENDPOINT,
+        reply: async (request) => {
+          const { to } = (await request.clone().json()) as { to: string };
+          if (to === second.email) {
+            await hung;
+            return { error: "network" };
+          }
+          return { body: { id: `email-${to}` } };
+        },
+      },
+    ]);
+    const { POST } = await import("@/app/api/notifications/daily/route");
+    const killed = POST(cronRequest());
+    await vi.waitFor(async () => {
+      const log = JSON.parse(
+        await fs.readFile(path.join(dataDir, "delivery-log.json"), "utf-8")
+      ) as { attempts?: unknown[] };
+      expect(log.attempts).toHaveLength(1);
+    });
+
+    // The next invocation finds the dead run's lease expired.
+    vi.setSystemTime(new Date(SCENARIO_NOW.getTime() + 11 * 60 * 1000));
+    vi.resetModules();
+    fake.use([{ url: RESEND_ENDPOINT, reply: { body: { id: "email-retry" } } }]);
+    const next = await import("@/app/api/notifications/daily/route");
+    const response = await next.POST(cronRequest());
+    const emails = await sentEmails();
+
+    expect(await response.json()).toMatchObject({ ok: true, sent: 1 });
+    expect(emails.map((email) => email.to)).toEqual([
+      subscriber.email,
+      second.email,
+      second.email,
+    ]);
+
+    release();
+    await killed;
+  });
+
+  it("skips a send the log recorded even if lastSentOn was never written", async () => {
+    await writeDeliveryLog({
+      attempts: [
+        {
+          id: "earlier-run",
+          email: subscriber.email,
+          sendOn: "2026-01-14",
+          attempt: 1,
+          status: "sent",
+          attemptedAt: SCENARIO_NOW.toISOString(),
+        },
+      ],
+    });
+    const { body, emails } = await runDaily("clear");
+
+    expect(body).toMatchObject({ ok: true, sent: 0 });
+    expect(emails).toHaveLength(0);
+  });
+});
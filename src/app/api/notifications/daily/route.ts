@@ -1,112 +1,192 @@
+import crypto from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import {
   listSubscribers,
-  saveSubscribers,
+  purgeExpiredPending,
+  updateSubscribers,
   type Subscriber,
 } from "@/lib/subscribers";
-import { sendEmail } from "@/lib/email";
+import { requireRole } from "@/lib/cron-auth";
+import { EmailRateLimitError, sendEmail } from "@/lib/email";
+import { dispatch, resolveDispatchOptions } from "@/lib/email-dispatcher";
+import {
+  getDeliveryLog,
+  MAX_DELIVERY_ATTEMPTS,
+  nextRetryAt,
+  type DeliveryAttempt,
+  type DeliveryLog,
+} from "@/lib/delivery-log";
+import { renderMorningEmail } from "@/lib/email-template";
+import {
+  getLocalDate,
+  isDueNow,
+  resolveTimeZone,
+} from "@/lib/delivery-schedule";
+import {
+  buildListUnsubscribeHeaders,
+  buildPreferencesUrl,
+  buildUnsubscribeUrl,
+  resolveBaseUrl,
+} from "@/lib/notifications";
 import {
   getWeatherSnapshot,
   getWeatherSnapshotByCoords,
 } from "@/lib/weather-pipeline";
 
 export const runtime = "nodejs";
+// Matches the default dispatch budget plus time to save the checkpoint.
+export const maxDuration = 60;
 
-const buildEmail = (
-  location: string,
-  summary: string,
-  high: string,
-  low: string,
-  unsubscribeUrl: string
-) => {
-  return `
-    <div style="font-family: Inter, Arial, sans-serif; color:#0f172a;">
-      <h2 style="margin-bottom:8px;">${location} — Morning Forecast</h2>
-      <p style="margin:0 0 12px;">${summary}</p>
-      <p style="margin:0; font-size:14px;">High: ${high} · Low: ${low}</p>
-      <p style="margin-top:16px; font-size:12px; color:#64748b;">
-        SkyView Weather · <a href="${unsubscribeUrl}" style="color:#64748b;">Unsubscribe</a>
-      </p>
-    </div>
-  `;
-};
+// A run that still has not finished after this long is abandoned; those
+// subscribers are well past their delivery hour.
+const CHECKPOINT_MAX_AGE_MS = 3 * 60 * 60 * 1000;
 
-const resolveBaseUrl = () => {
-  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
-  if (process.env.APP_URL) return process.env.APP_URL;
-  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
-  return "http://localhost:3000";
-};
+// Comfortably longer than maxDuration, so a live run keeps its lease, yet short
+// enough that a run which died holding it does not block the next hour's.
+const RUN_LEASE_MS = 10 * 60 * 1000;
 
-const formatTemp = (valueF: number | null, unit: "F" | "C") => {
-  if (valueF === null) return "—";
-  if (unit === "C") {
-    return `${Math.round((valueF - 32) * (5 / 9))}°C`;
-  }
-  return `${Math.round(valueF)}°F`;
-};
+// Every time zone's "today" began within the last two days.
+const SENT_LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000;
 
-const resolveTimeZone = (timeZone?: string) => {
-  if (!timeZone) return "America/New_York";
-  try {
-    new Intl.DateTimeFormat("en-US", { timeZone }).format(new Date());
-    return timeZone;
-  } catch {
-    return "America/New_York";
-  }
+type DeliveryOutcome = {
+  subscriber: Subscriber;
+  sendOn: string;
+  attempt: number;
+  messageId?: string;
+  error?: string;
 };
 
-const getLocalDate = (date: Date, timeZone: string) =>
-  new Intl.DateTimeFormat("en-CA", {
-    timeZone: resolveTimeZone(timeZone),
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(date);
-
-const getLocalHour = (date: Date, timeZone: string) => {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: resolveTimeZone(timeZone),
-    hour: "numeric",
-    hourCycle: "h23",
-  }).formatToParts(date);
-  const hourPart = parts.find((part) => part.type === "hour")?.value ?? "0";
-  return Number.parseInt(hourPart, 10);
-};
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
 
-const isDueNow = (subscriber: Subscriber, now: Date) => {
-  const localHour = getLocalHour(now, subscriber.timezone);
-  const localDate = getLocalDate(now, subscriber.timezone);
-  return localHour === 7 && subscriber.lastSentOn !== localDate;
-};
+const toAttempt = (
+  { subscriber, sendOn, attempt, messageId, error }: DeliveryOutcome,
+  attemptedAt: string
+): DeliveryAttempt => ({
+  id: crypto.randomUUID(),
+  email: subscriber.email,
+  sendOn,
+  attempt,
+  status: error === undefined ? "sent" : "failed",
+  error,
+  messageId,
+  attemptedAt,
+});
 
 export async function POST(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const force = searchParams.get("force") === "1";
+  // A test send to one subscriber; it ignores the schedule and leaves
+  // lastSentOn, retries and the checkpoint alone.
+  const target = searchParams.get("email")?.trim().toLowerCase() || null;
+
+  const denied = requireRole(request, force || target ? "admin" : "cron");
+  if (denied) return denied;
+
+  const now = new Date();
+  // Test sends leave the checkpoint and lastSentOn alone, so only full runs
+  // take the lease.
+  const leaseOwner = target ? null : crypto.randomUUID();
+  let deliveryLog: DeliveryLog | null = null;
+
   try {
-    const subscribers = await listSubscribers();
-    if (subscribers.length === 0) {
-      return NextResponse.json({ ok: true, sent: 0 });
+    const log = await getDeliveryLog();
+    deliveryLog = log;
+    if (
+      leaseOwner &&
+      !(await log.claimRun(
+        {
+          run: "daily",
+          owner: leaseOwner,
+          expiresAt: new Date(now.getTime() + RUN_LEASE_MS).toISOString(),
+        },
+        now.toISOString()
+      ))
+    ) {
+      // Another invocation is sending; it will carry any leftovers over.
+      return NextResponse.json({ ok: true, inProgress: true, sent: 0 });
+    }
+
+    await purgeExpiredPending();
+    const active = (await listSubscribers()).filter(
+      (subscriber) => subscriber.status === "active"
+    );
+    const subscribers = target
+      ? active.filter((subscriber) => subscriber.email === target)
+      : active.filter((subscriber) => !subscriber.paused);
+    if (target && subscribers.length === 0) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
     }
 
-    const { searchParams } = new URL(request.url);
-    const force = searchParams.get("force") === "1";
-    const now = new Date();
     const baseUrl = resolveBaseUrl();
 
-    const dueSubscribers = force
-      ? subscribers
-      : subscribers.filter((subscriber) => isDueNow(subscriber, now));
+    // A retry only makes sense for the day it was queued for, and only while
+    // the subscriber is still active and has not received that day's email.
+    const subscribersByEmail = new Map(
+      subscribers.map((subscriber) => [subscriber.email, subscriber])
+    );
+    const queuedRetries = target ? [] : await log.listRetries();
+    const expiredRetries = queuedRetries.filter((entry) => {
+      const subscriber = subscribersByEmail.get(entry.email);
+      return (
+        !subscriber ||
+        subscriber.lastSentOn === entry.sendOn ||
+        getLocalDate(now, subscriber.timezone) !== entry.sendOn
+      );
+    });
+    const pendingRetries = new Map(
+      queuedRetries
+        .filter((entry) => !expiredRetries.includes(entry))
+        .map((entry) => [entry.email, entry])
+    );
 
-    if (dueSubscribers.length === 0) {
-      return NextResponse.json({ ok: true, sent: 0 });
-    }
+    // Attempts are recorded before lastSentOn is written, so a run that died
+    // in between still counts as having sent.
+    const sentToday = new Set(
+      force || target
+        ? []
+        : (
+            await log.listSent(
+              new Date(now.getTime() - SENT_LOOKBACK_MS).toISOString()
+            )
+          ).map(({ email, sendOn }) => `${email}|${sendOn}`)
+    );
+
+    // Subscribers a budget-limited earlier run did not reach stay due even if
+    // their delivery hour has since passed. The checkpoint is only read and
+    // written under the run lease, so two invocations never resume it both.
+    const checkpoint = target ? null : await log.getCheckpoint();
+    const resuming =
+      checkpoint !== null &&
+      now.getTime() - Date.parse(checkpoint.startedAt) < CHECKPOINT_MAX_AGE_MS;
+    const carriedOver = new Set(resuming ? checkpoint.remaining : []);
+    const startedAt = resuming ? checkpoint.startedAt : now.toISOString();
+
+    const dueSubscribers = subscribers.filter((subscriber) => {
+      if (force || target) return true;
+      if (sentToday.has(`${subscriber.email}|${getLocalDate(now, subscriber.timezone)}`)) {
+        return false;
+      }
+      if (
+        carriedOver.has(subscriber.email) &&
+        subscriber.lastSentOn !== getLocalDate(now, subscriber.timezone)
+      ) {
+        return true;
+      }
+      const retry = pendingRetries.get(subscriber.email);
+      return retry
+        ? Date.parse(retry.nextAttemptAt) <= now.getTime()
+        : isDueNow(subscriber, now);
+    });
 
-    const weatherCache = new Map<string, Awaited<ReturnType<typeof getWeatherSnapshot>>>();
+    // Promises are cached so concurrent workers share a single fetch.
+    const weatherCache = new Map<string, ReturnType<typeof getWeatherSnapshot>>();
 
-    const getSnapshotForSubscriber = async (subscriber: Subscriber) => {
+    const getSnapshotForSubscriber = (subscriber: Subscriber) => {
       if (!subscriber.location) {
         const key = "default";
         if (!weatherCache.has(key)) {
-          weatherCache.set(key, await getWeatherSnapshot());
+          weatherCache.set(key, getWeatherSnapshot());
         }
         return weatherCache.get(key)!;
       }
@@ -115,7 +195,7 @@ export async function POST(request: NextRequest) {
       if (!weatherCache.has(key)) {
         weatherCache.set(
           key,
-          await getWeatherSnapshotByCoords(
+          getWeatherSnapshotByCoords(
             subscriber.location.lat,
             subscriber.location.lon,
             subscriber.location.name
@@ -125,50 +205,121 @@ export async function POST(request: NextRequest) {
       return weatherCache.get(key)!;
     };
 
-    const results = await Promise.allSettled(
-      dueSubscribers.map(async (subscriber) => {
-        const snapshot = await getSnapshotForSubscriber(subscriber);
-        const today = snapshot.data.daily[0];
-        const summary = today?.summary ?? snapshot.data.current.condition;
-        const high = formatTemp(today?.highF ?? null, subscriber.unit);
-        const low = formatTemp(today?.lowF ?? null, subscriber.unit);
-        const locationName =
-          subscriber.location?.name ?? snapshot.data.location.name;
-
-        await sendEmail({
-          to: subscriber.email,
-          subject: "Your SkyView morning forecast",
-          html: buildEmail(
-            locationName,
-            summary,
-            high,
-            low,
-            `${baseUrl}/api/unsubscribe?token=${subscriber.token}`
-          ),
-        });
-
-        return subscriber.email;
-      })
+    // Saved before sending, so a run killed mid-dispatch still hands the
+    // subscribers it never reached to the next one.
+    if (!target && dueSubscribers.length > 0) {
+      await log.saveCheckpoint({
+        startedAt,
+        remaining: dueSubscribers.map((subscriber) => subscriber.email),
+      });
+    }
+
+    const { results: outcomes, remaining } = await dispatch(
+      dueSubscribers,
+      async (subscriber): Promise<DeliveryOutcome> => {
+        const sendOn = getLocalDate(now, subscriber.timezone);
+        const attempt = (pendingRetries.get(subscriber.email)?.attempts ?? 0) + 1;
+        let outcome: DeliveryOutcome;
+        try {
+          const snapshot = await getSnapshotForSubscriber(subscriber);
+          const email = renderMorningEmail({
+            weather: snapshot.data,
+            locationName: subscriber.location?.name ?? snapshot.data.location.name,
+            units: subscriber.units,
+            timeZone: resolveTimeZone(subscriber.timezone),
+            unsubscribeUrl: buildUnsubscribeUrl(baseUrl, subscriber.token),
+            preferencesUrl: buildPreferencesUrl(baseUrl, subscriber.token),
+          });
+
+          const { id } = await sendEmail({
+            to: subscriber.email,
+            ...email,
+            headers: buildListUnsubscribeHeaders(baseUrl, subscriber.token),
+          });
+          outcome = { subscriber, sendOn, attempt, messageId: id ?? undefined };
+        } catch (error) {
+          // Rate limits are retried by the dispatcher rather than logged.
+          if (error instanceof EmailRateLimitError) throw error;
+          outcome = { subscriber, sendOn, attempt, error: toErrorMessage(error) };
+        }
+        // Logged as each send finishes rather than after the dispatch, so the
+        // next run's sent-today check covers a run that was killed partway.
+        await log.record([toAttempt(outcome, now.toISOString())]);
+        return outcome;
+      },
+      resolveDispatchOptions()
     );
 
-    const sentSet = new Set(
-      results
-        .filter((result) => result.status === "fulfilled")
-        .map((result) => result.value)
+    if (
+      !target &&
+      (remaining.length > 0 || checkpoint || dueSubscribers.length > 0)
+    ) {
+      await log.saveCheckpoint(
+        remaining.length > 0
+          ? {
+              startedAt,
+              remaining: remaining.map((subscriber) => subscriber.email),
+            }
+          : null
+      );
+    }
+
+    const sent = outcomes.filter((outcome) => outcome.error === undefined);
+    const failed = outcomes.filter((outcome) => outcome.error !== undefined);
+    const requeued = failed.filter(
+      (outcome) => outcome.attempt < MAX_DELIVERY_ATTEMPTS
+    );
+    const exhausted = failed.filter(
+      (outcome) => outcome.attempt >= MAX_DELIVERY_ATTEMPTS
     );
-    if (sentSet.size > 0) {
-      const updatedSubscribers = subscribers.map((subscriber) => {
-        if (!sentSet.has(subscriber.email)) return subscriber;
-        return {
-          ...subscriber,
-          lastSentOn: getLocalDate(now, subscriber.timezone),
-        };
+
+    if (target) {
+      return NextResponse.json({
+        ok: true,
+        sent: sent.length,
+        failed: failed.length,
+        remaining: remaining.length,
+        error: failed[0]?.error,
       });
-      await saveSubscribers(updatedSubscribers);
     }
 
-    return NextResponse.json({ ok: true, sent: sentSet.size });
+    await log.scheduleRetries(
+      requeued.map(({ subscriber, sendOn, attempt, error }) => ({
+        email: subscriber.email,
+        sendOn,
+        attempts: attempt,
+        nextAttemptAt: nextRetryAt(attempt, now),
+        lastError: error ?? "",
+      }))
+    );
+    await log.clearRetries([
+      ...expiredRetries.map((entry) => entry.email),
+      ...[...sent, ...exhausted].map((outcome) => outcome.subscriber.email),
+    ]);
+    await updateSubscribers(
+      sent.map(({ subscriber, sendOn }) => ({
+        email: subscriber.email,
+        changes: { lastSentOn: sendOn },
+      }))
+    );
+
+    return NextResponse.json({
+      ok: true,
+      sent: sent.length,
+      failed: failed.length,
+      retried: outcomes.filter((outcome) => outcome.attempt > 1).length,
+      queued: requeued.length,
+      abandoned: exhausted.length,
+      remaining: remaining.length,
+    });
   } catch (error) {
     return NextResponse.json({ error: "Failed to send" }, { status: 500 });
+  } finally {
+    if (leaseOwner && deliveryLog) {
+      await deliveryLog.releaseRun(leaseOwner).catch(() => undefined);
+    }
   }
 }
+
+// Vercel Cron issues GET requests; the GitHub workflow POSTs.
+export const GET = POST;
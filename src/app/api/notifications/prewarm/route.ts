@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/cron-auth";
+import { listDueAtNextRun } from "@/lib/delivery-schedule";
+import { listSubscribers } from "@/lib/subscribers";
+import { prewarmWeather } from "@/lib/weather-pipeline";
+
+export const runtime = "nodejs";
+
+// Scheduled a few minutes before the hourly send so the daily route reads
+// fresh forecasts from the cache instead of fetching each location itself.
+// Only locations with someone due in that send are warmed.
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, "cron");
+  if (denied) return denied;
+
+  try {
+    const locations = listDueAtNextRun(await listSubscribers(), new Date())
+      .flatMap((subscriber) => (subscriber.location ? [subscriber.location] : []));
+
+    const result = await prewarmWeather(locations);
+    return NextResponse.json({ ok: true, ...result });
+  } catch {
+    return NextResponse.json({ error: "Failed to prewarm" }, { status: 500 });
+  }
+}
+
+// Vercel Cron issues GET requests.
+export const GET = POST;
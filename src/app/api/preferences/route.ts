@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isDeliveryDay } from "@/lib/delivery-schedule";
+import {
+  findSubscriberByToken,
+  isAlertThreshold,
+  isDeliveryHour,
+  isValidTimeZone,
+  normalizeLocationName,
+  toSubscriberPreferences,
+  updateSubscribers,
+  type SubscriberPreferences,
+} from "@/lib/subscribers";
+import { parseUnitSystem } from "@/lib/units";
+import { lookupTimeZone } from "@/lib/weather-provider";
+
+export const runtime = "nodejs";
+
+type PreferencesRequest = {
+  token?: string;
+  location?: {
+    name?: string;
+    lat?: number;
+    lon?: number;
+  } | null;
+  units?: string | Record<string, string>;
+  timezone?: string;
+  minAlertSeverity?: string;
+  deliveryHour?: number;
+  deliveryDays?: number[];
+  paused?: boolean;
+};
+
+type PreferenceChanges = Partial<Omit<SubscriberPreferences, "email">>;
+
+const parseChanges = (
+  body: PreferencesRequest
+): { changes: PreferenceChanges } | { error: string } => {
+  const changes: PreferenceChanges = {};
+
+  if (body.location !== undefined) {
+    const { location } = body;
+    if (
+      !location ||
+      typeof location.lat !== "number" ||
+      typeof location.lon !== "number" ||
+      Math.abs(location.lat) > 90 ||
+      Math.abs(location.lon) > 180
+    ) {
+      return { error: "Invalid location" };
+    }
+    const name =
+      location.name === undefined
+        ? "Your location"
+        : normalizeLocationName(location.name);
+    if (!name) return { error: "Invalid location name" };
+    changes.location = {
+      name,
+      lat: location.lat,
+      lon: location.lon,
+    };
+  }
+
+  if (body.units !== undefined) {
+    const units = parseUnitSystem(body.units);
+    if (!units) return { error: "Invalid units" };
+    changes.units = units;
+  }
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== "string" || !isValidTimeZone(body.timezone)) {
+      return { error: "Invalid timezone" };
+    }
+    changes.timezone = body.timezone;
+  }
+
+  if (body.minAlertSeverity !== undefined) {
+    if (!isAlertThreshold(body.minAlertSeverity)) {
+      return { error: "Invalid alert severity" };
+    }
+    changes.minAlertSeverity = body.minAlertSeverity;
+  }
+
+  if (body.deliveryHour !== undefined) {
+    if (!isDeliveryHour(body.deliveryHour)) {
+      return { error: "Invalid delivery hour" };
+    }
+    changes.deliveryHour = body.deliveryHour;
+  }
+
+  if (body.deliveryDays !== undefined) {
+    if (
+      !Array.isArray(body.deliveryDays) ||
+      body.deliveryDays.length === 0 ||
+      !body.deliveryDays.every(isDeliveryDay)
+    ) {
+      return { error: "Invalid delivery days" };
+    }
+    changes.deliveryDays = Array.from(new Set(body.deliveryDays)).sort(
+      (a, b) => a - b
+    );
+  }
+
+  if (body.paused !== undefined) {
+    if (typeof body.paused !== "boolean") return { error: "Invalid paused flag" };
+    changes.paused = body.paused;
+  }
+
+  return { changes };
+};
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get("token");
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  try {
+    const subscriber = await findSubscriberByToken(token);
+    if (!subscriber) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 404 });
+    }
+    return NextResponse.json({ preferences: toSubscriberPreferences(subscriber) });
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to load preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const body = (await request.json()) as PreferencesRequest;
+    if (!body.token || typeof body.token !== "string") {
+      return NextResponse.json({ error: "Missing token" }, { status: 400 });
+    }
+
+    const parsed = parseChanges(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const subscriber = await findSubscriberByToken(body.token);
+    if (!subscriber) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 404 });
+    }
+
+    // A move without an explicit zone picks up the new location's zone.
+    const { changes } = parsed;
+    if (changes.location && !changes.timezone) {
+      const timezone = await lookupTimeZone(
+        changes.location.lat,
+        changes.location.lon
+      );
+      if (timezone) changes.timezone = timezone;
+    }
+
+    // Only the changed fields go back: the store merges them into the current
+    // record, so a concurrent lastSentOn or sentAlertIds write is kept.
+    const updated = await updateSubscribers([{ email: subscriber.email, changes }]);
+    if (updated === 0) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 404 });
+    }
+    return NextResponse.json({
+      ok: true,
+      preferences: toSubscriberPreferences({ ...subscriber, ...changes }),
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Unable to update preferences" },
+      { status: 500 }
+    );
+  }
+}
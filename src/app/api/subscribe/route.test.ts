@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import { BROOKLYN, RESEND_ENDPOINT, SCENARIO_NOW } from "@/test/scenarios";
+import { LATEST_SUBSCRIBER_VERSION } from "@/lib/subscriber-migrations";
+import type { Subscriber } from "@/lib/subscribers";
+
+const active: Subscriber = {
+  email: "reader@example.com",
+  location: BROOKLYN,
+  units: "imperial",
+  timezone: "America/New_York",
+  minAlertSeverity: "Severe",
+  token: "fixture-token",
+  subscribedAt: "2025-11-02T14:00:00.000Z",
+  sentAlertIds: [],
+  status: "active",
+  confirmedAt: "2025-11-02T14:05:00.000Z",
+  deliveryHour: 8,
+  deliveryDays: [],
+  paused: false,
+};
+
+let fake: FakeFetch;
+let dataDir: string;
+
+const readSubscribers = async () => {
+  const contents = await fs.readFile(path.join(dataDir, "subscribers.json"), "utf-8");
+  return (JSON.parse(contents) as { subscribers: Subscriber[] }).subscribers;
+};
+
+const subscribe = async (body: object) => {
+  const { POST } = await import("@/app/api/subscribe/route");
+  const response = await POST(
+    new Request("https://skyview.test/api/subscribe", {
+      method: "POST",
+      body: JSON.stringify({ timezone: "America/Chicago", ...body }),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+const confirmationsSent = () => fake.count(RESEND_ENDPOINT);
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+  fake = installFakeFetch([
+    { method: "POST", url: RESEND_ENDPOINT, reply: { body: { id: "re_fixture" } } },
+  ]);
+
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "skyview-subscribe-"));
+  await fs.writeFile(
+    path.join(dataDir, "subscribers.json"),
+    JSON.stringify({ version: LATEST_SUBSCRIBER_VERSION, subscribers: [active] })
+  );
+  vi.stubEnv("SUBSCRIBER_STORE", "json");
+  vi.stubEnv("SUBSCRIBER_FILE_PATH", path.join(dataDir, "subscribers.json"));
+  vi.stubEnv("EMAIL_TRANSPORT", "resend");
+  vi.stubEnv("RESEND_API_KEY", "re_fixture_key");
+  vi.stubEnv("EMAIL_FROM", "SkyView <skyview@example.com>");
+  vi.stubEnv("APP_URL", "https://skyview.test");
+});
+
+afterEach(async () => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("POST /api/subscribe", () => {
+  it("leaves an active subscriber's settings alone", async () => {
+    const { status, body } = await subscribe({
+      email: "Reader@Example.com",
+      units: "metric",
+      minAlertSeverity: "Minor",
+      location: { name: "Chicago, IL", lat: 41.88, lon: -87.63 },
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ok: true, pending: false });
+    expect(body.message).toContain("preferences link");
+    expect(await readSubscribers()).toEqual([active]);
+    expect(confirmationsSent()).toBe(0);
+  });
+
+  it("sends at most one confirmation per address every ten minutes", async () => {
+    const first = await subscribe({ email: "new@example.com" });
+    const again = await subscribe({ email: "new@example.com" });
+
+    expect(first.body).toMatchObject({ ok: true, pending: true });
+    expect(again.body).toMatchObject({ ok: true, pending: true });
+    expect(confirmationsSent()).toBe(1);
+
+    vi.setSystemTime(SCENARIO_NOW.getTime() + 10 * 60 * 1000);
+    await subscribe({ email: "new@example.com" });
+    expect(confirmationsSent()).toBe(2);
+  });
+
+  it("lets a retry through straight away when the confirmation failed to send", async () => {
+    fake.use([{ url: RESEND_ENDPOINT, reply: { status: 500, body: { message: "down" } } }]);
+    const failed = await subscribe({ email: "new@example.com" });
+    fake.use([{ url: RESEND_ENDPOINT, reply: { body: { id: "re_retry" } } }]);
+    const retry = await subscribe({ email: "new@example.com" });
+
+    expect(failed.status).toBe(500);
+    expect(retry.body).toMatchObject({ ok: true, message: "Confirmation sent" });
+    expect(confirmationsSent()).toBe(2);
+  });
+
+  it("rejects units it cannot parse", async () => {
+    const { status, body } = await subscribe({
+      email: "new@example.com",
+      units: "constructor",
+    });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "Invalid units" });
+    expect(confirmationsSent()).toBe(0);
+  });
+});
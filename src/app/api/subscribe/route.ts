@@ -1,5 +1,17 @@
 import { NextResponse } from "next/server";
-import { addSubscriber } from "@/lib/subscribers";
+import {
+  addSubscriber,
+  isAlertThreshold,
+  isValidTimeZone,
+  normalizeLocationName,
+  updateSubscribers,
+  type AlertThreshold,
+} from "@/lib/subscribers";
+import { sendEmail } from "@/lib/email";
+import { renderConfirmEmail } from "@/lib/email-template";
+import { buildConfirmUrl, resolveBaseUrl } from "@/lib/notifications";
+import { parseUnitSystem } from "@/lib/units";
+import { lookupTimeZone } from "@/lib/weather-provider";
 
 type SubscribeRequest = {
   email?: string;
@@ -8,32 +20,85 @@ type SubscribeRequest = {
     lat?: number;
     lon?: number;
   };
-  unit?: "F" | "C";
+  units?: string | Record<string, string>;
   timezone?: string;
+  minAlertSeverity?: AlertThreshold;
+};
+
+// Without a usable zone from the browser, use the one NWS has on file for the
+// location.
+const resolveTimezone = async (
+  timezone: unknown,
+  location?: { lat: number; lon: number }
+) => {
+  if (typeof timezone === "string" && isValidTimeZone(timezone)) return timezone;
+  if (!location) return undefined;
+  return (await lookupTimeZone(location.lat, location.lon)) ?? undefined;
 };
 
 export async function POST(request: Request) {
   try {
-    const { email, location, unit, timezone } =
+    const { email, location, units, timezone, minAlertSeverity } =
       (await request.json()) as SubscribeRequest;
     if (!email || typeof email !== "string") {
       return NextResponse.json({ error: "Email is required" }, { status: 400 });
     }
 
+    const locationName =
+      location?.name === undefined
+        ? "Your location"
+        : normalizeLocationName(location.name);
+    if (!locationName) {
+      return NextResponse.json(
+        { error: "Invalid location name" },
+        { status: 400 }
+      );
+    }
+
+    const parsedUnits = units === undefined ? null : parseUnitSystem(units);
+    if (units !== undefined && !parsedUnits) {
+      return NextResponse.json({ error: "Invalid units" }, { status: 400 });
+    }
+
+    const subscriberLocation =
+      location && typeof location.lat === "number" && typeof location.lon === "number"
+        ? {
+            name: locationName,
+            lat: location.lat,
+            lon: location.lon,
+          }
+        : undefined;
+
     const result = await addSubscriber(email, {
-      location:
-        location && typeof location.lat === "number" && typeof location.lon === "number"
-          ? {
-              name: location.name ?? "Your location",
-              lat: location.lat,
-              lon: location.lon,
-            }
-          : undefined,
-      unit,
-      timezone,
+      location: subscriberLocation,
+      units: parsedUnits ?? undefined,
+      timezone: await resolveTimezone(timezone, subscriberLocation),
+      minAlertSeverity: isAlertThreshold(minAlertSeverity)
+        ? minAlertSeverity
+        : undefined,
+    });
+
+    if (result.pending?.confirmToken) {
+      const confirmEmail = renderConfirmEmail({
+        locationName: result.pending.location?.name ?? "New York, NY",
+        confirmUrl: buildConfirmUrl(resolveBaseUrl(), result.pending.confirmToken),
+      });
+      try {
+        await sendEmail({ to: result.pending.email, ...confirmEmail });
+      } catch (error) {
+        await updateSubscribers([
+          { email: result.pending.email, changes: { confirmSentAt: undefined } },
+        ]);
+        throw error;
+      }
+    }
+
+    return NextResponse.json({
+      ok: result.ok,
+      message: result.message,
+      pending: Boolean(result.pending || result.awaitingConfirmation),
     });
-    return NextResponse.json(result);
-  } catch (error) {
+  } catch {
     return NextResponse.json({ error: "Unable to subscribe" }, { status: 500 });
   }
 }
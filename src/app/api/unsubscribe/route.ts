@@ -1,17 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
-import { removeSubscriberByToken } from "@/lib/subscribers";
+import {
+  findSubscriberByToken,
+  removeSubscriberByToken,
+} from "@/lib/subscribers";
+import { html } from "@/lib/html";
+import { readToken, renderPage, wantsHtml } from "@/lib/html-page";
+import { buildPreferencesUrl, resolveBaseUrl } from "@/lib/notifications";
 
 export const runtime = "nodejs";
 
+// Link scanners prefetch GET URLs, so GET only asks for confirmation.
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const token = searchParams.get("token");
+  if (!token) {
+    return renderPage(
+      "Missing link",
+      html`<p style="margin:0; color:#cbd5e1;">Use the unsubscribe link from your SkyView email.</p>`,
+      400
+    );
+  }
+
+  try {
+    const subscriber = await findSubscriberByToken(token);
+    if (!subscriber) {
+      return renderPage(
+        "Already unsubscribed",
+        html`<p style="margin:0; color:#cbd5e1;">This address no longer receives SkyView emails.</p>`,
+        404
+      );
+    }
+
+    return renderPage(
+      "Unsubscribe?",
+      html`<p style="margin:0 0 20px; color:#cbd5e1;">Stop all SkyView emails to ${subscriber.email}.</p>
+      <form method="post" action="/api/unsubscribe">
+        <input type="hidden" name="token" value="${token}" />
+        <button type="submit" style="padding:12px 20px; border:0; border-radius:12px; background:#f8fafc; color:#0f172a; font-weight:600; cursor:pointer;">Unsubscribe</button>
+      </form>
+      <p style="margin:20px 0 0; font-size:14px;"><a href="${buildPreferencesUrl(resolveBaseUrl(), token)}" style="color:#7dd3fc;">Pause or change emails instead</a></p>`
+    );
+  } catch {
+    return renderPage(
+      "Something went wrong",
+      html`<p style="margin:0; color:#cbd5e1;">Please try again in a few minutes.</p>`,
+      500
+    );
+  }
+}
+
+// Handles both the confirmation form and RFC 8058 one-click requests, which
+// POST `List-Unsubscribe=One-Click` to the URL from the List-Unsubscribe header.
+export async function POST(request: NextRequest) {
+  const token = await readToken(request);
   if (!token) {
     return NextResponse.json({ error: "Missing token" }, { status: 400 });
   }
 
   try {
     const removed = await removeSubscriberByToken(token);
+    if (wantsHtml(request)) {
+      return renderPage(
+        removed ? "You’re unsubscribed" : "Already unsubscribed",
+        html`<p style="margin:0; color:#cbd5e1;">You won’t receive any more SkyView emails.</p>`
+      );
+    }
     if (!removed) {
       return NextResponse.json({ error: "Invalid token" }, { status: 404 });
     }
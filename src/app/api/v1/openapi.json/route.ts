@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { resolveBaseUrl } from "@/lib/notifications";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(resolveBaseUrl()));
+}
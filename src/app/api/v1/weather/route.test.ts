@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import {
+  BROOKLYN,
+  buildScenario,
+  OPEN_METEO_ENDPOINTS,
+  SCENARIO_NOW,
+  type ScenarioName,
+} from "@/test/scenarios";
+
+let fake: FakeFetch;
+
+const getWeather = async (query: string, scenario: ScenarioName = "clear") => {
+  fake = installFakeFetch(buildScenario(scenario));
+  const { GET } = await import("@/app/api/v1/weather/route");
+  const response = await GET(
+    new NextRequest(`https://skyview.test/api/v1/weather?${query}`)
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+});
+
+afterEach(() => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("GET /api/v1/weather", () => {
+  it("returns data and meta for valid coordinates", async () => {
+    const { status, body } = await getWeather(
+      `lat=${BROOKLYN.lat}&lon=${BROOKLYN.lon}&units=metric`
+    );
+
+    expect(status).toBe(200);
+    expect(body.data.location.name).toBe("Brooklyn, NY");
+    expect(body.meta).toMatchObject({ source: "live", circuit: "closed" });
+    expect(body.converted.current.temperature).toBe(-3);
+  });
+
+  it.each([
+    ["", ["lat", "lon"]],
+    ["lat=40.7", ["lon"]],
+    ["lat=north&lon=-74", ["lat"]],
+    ["lat=40.7abc&lon=-74", ["lat"]],
+    ["lat=1e1&lon=-74", ["lat"]],
+    ["lat=91&lon=-74", ["lat"]],
+    ["lat=40.7&lon=-181", ["lon"]],
+    ["lat=40.7&lat=41&lon=-74", ["lat"]],
+    ["lat=40.7&lon=-74&units=kelvin", ["units"]],
+    ["lat=40.7&lon=-74&units=toString:x", ["units"]],
+    ["lat=40.7&lon=-74&units=constructor", ["units"]],
+    ["lat=40.7&lon=-74&name=%3Cb%3E", ["name"]],
+    ["lat=40.7&lon=-74&callback=x", ["callback"]],
+  ])("rejects %j with a 400", async (query, params) => {
+    const { status, body } = await getWeather(query);
+
+    expect(status).toBe(400);
+    expect(body.error.code).toBe("invalid_query");
+    expect(body.error.details.map((detail: { param: string }) => detail.param)).toEqual(
+      params
+    );
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("reports an upstream failure as a 502 error object", async () => {
+    fake = installFakeFetch([
+      { url: OPEN_METEO_ENDPOINTS.forecast, reply: { status: 503 } },
+    ]);
+    const { GET } = await import("@/app/api/v1/weather/route");
+    // Outside NWS coverage only Open-Meteo is tried.
+    const response = await GET(
+      new NextRequest("https://skyview.test/api/v1/weather?lat=51.5&lon=-0.12")
+    );
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "upstream_unavailable",
+        message: "Unable to fetch weather data",
+      },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkApiAccess } from "@/lib/api-access";
+import {
+  apiError,
+  parseWeatherQuery,
+  type WeatherResponse,
+} from "@/lib/api-v1";
+import { convertWeather, resolveUnits } from "@/lib/units";
+import { getWeatherSnapshotByCoords } from "@/lib/weather-pipeline";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const access = await checkApiAccess(request);
+  const { headers } = access;
+  if (access.status === "invalid_api_key") {
+    return apiError(401, "invalid_api_key", "Unknown or revoked API key");
+  }
+  if (access.status === "rate_limited") {
+    return apiError(429, "rate_limited", "Too many requests", undefined, headers);
+  }
+
+  const { query, issues } = parseWeatherQuery(
+    new URL(request.url).searchParams
+  );
+  if (!query) {
+    return apiError(
+      400,
+      "invalid_query",
+      "Invalid query parameters",
+      issues,
+      headers
+    );
+  }
+
+  try {
+    const snapshot = await getWeatherSnapshotByCoords(
+      query.lat,
+      query.lon,
+      query.name
+    );
+    const body: WeatherResponse = query.units
+      ? {
+          ...snapshot,
+          converted: convertWeather(snapshot.data, resolveUnits(query.units)),
+        }
+      : snapshot;
+    return NextResponse.json(body, { headers });
+  } catch {
+    return apiError(
+      502,
+      "upstream_unavailable",
+      "Unable to fetch weather data",
+      undefined,
+      headers
+    );
+  }
+}
@@ -1,28 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
+import { checkApiAccess } from "@/lib/api-access";
 import {
   getWeatherSnapshot,
   getWeatherSnapshotByCoords,
 } from "@/lib/weather-pipeline";
+import { convertWeather, parseUnitSystem, resolveUnits } from "@/lib/units";
 
 export const runtime = "nodejs";
 
 export async function GET(request: NextRequest) {
+  const access = await checkApiAccess(request);
+  const { headers } = access;
+  if (access.status === "invalid_api_key") {
+    return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+  }
+  if (access.status === "rate_limited") {
+    return NextResponse.json(
+      { error: "Too many requests" },
+      { status: 429, headers }
+    );
+  }
+
   const { searchParams } = new URL(request.url);
   const latParam = searchParams.get("lat");
   const lonParam = searchParams.get("lon");
   const name = searchParams.get("name");
   const lat = latParam ? Number.parseFloat(latParam) : null;
   const lon = lonParam ? Number.parseFloat(lonParam) : null;
+  const unitsParam = searchParams.get("units");
+  const units = unitsParam === null ? null : parseUnitSystem(unitsParam);
+  if (unitsParam !== null && !units) {
+    return NextResponse.json(
+      { error: "Invalid units" },
+      { status: 400, headers }
+    );
+  }
   try {
     const snapshot =
       lat !== null && Number.isFinite(lat) && lon !== null && Number.isFinite(lon)
         ? await getWeatherSnapshotByCoords(lat, lon, name)
         : await getWeatherSnapshot();
-    return NextResponse.json(snapshot);
+    // The payload stays in US units; `?units=` adds a converted copy of its
+    // numbers alongside.
+    return NextResponse.json(
+      units
+        ? { ...snapshot, converted: convertWeather(snapshot.data, resolveUnits(units)) }
+        : snapshot,
+      { headers }
+    );
   } catch {
     return NextResponse.json(
       { error: "Unable to fetch weather data" },
-      { status: 502 }
+      { status: 502, headers }
     );
   }
 }
@@ -0,0 +1,392 @@
+"use client";
+
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import type { SubscriberPreferences } from "@/lib/subscribers";
+import {
+  formatUnitSystem,
+  resolveUnits,
+  UNIT_OPTIONS,
+  type Measure,
+  type UnitPreset,
+} from "@/lib/units";
+
+type PreferencesViewProps = {
+  token: string;
+  initialPreferences: SubscriberPreferences | null;
+};
+
+type GeoSuggestion = {
+  name: string;
+  admin1?: string;
+  country?: string;
+  lat: number;
+  lon: number;
+};
+
+const formatSuggestionLabel = (item: GeoSuggestion) =>
+  [item.name, item.admin1, item.country].filter(Boolean).join(", ");
+
+const formatHour = (hour: number) =>
+  new Intl.DateTimeFormat(undefined, { hour: "numeric" }).format(
+    new Date(2000, 0, 1, hour)
+  );
+
+const MEASURE_LABELS: Record<Measure, string> = {
+  temperature: "Temperature",
+  speed: "Wind speed",
+  distance: "Distance",
+  pressure: "Pressure",
+  precipitation: "Rain & snow",
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const DAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+export default function PreferencesView({
+  token,
+  initialPreferences,
+}: PreferencesViewProps) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [draft, setDraft] = useState(initialPreferences);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<GeoSuggestion[]>([]);
+  const [searchStatus, setSearchStatus] = useState<"idle" | "loading" | "error">(
+    "idle"
+  );
+  const [saveState, setSaveState] = useState<
+    "idle" | "saving" | "saved" | "error"
+  >("idle");
+
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    return draft && !zones.includes(draft.timezone)
+      ? [draft.timezone, ...zones]
+      : zones;
+  }, [draft]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setSuggestions([]);
+      setSearchStatus("idle");
+      return;
+    }
+
+    setSearchStatus("loading");
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/geocode?query=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) throw new Error("geocode failed");
+        const payload = await response.json();
+        setSuggestions((payload?.results as GeoSuggestion[]) ?? []);
+        setSearchStatus("idle");
+      } catch (error) {
+        if ((error as Error).name === "AbortError") return;
+        setSuggestions([]);
+        setSearchStatus("error");
+      }
+    }, 250);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timeoutId);
+    };
+  }, [searchQuery]);
+
+  if (!preferences || !draft) {
+    return (
+      <main className="min-h-screen bg-night text-white flex items-center justify-center px-4">
+        <div className="glass rounded-3xl p-8 max-w-md text-center">
+          <h1 className="text-2xl font-semibold">Link expired</h1>
+          <p className="text-sm text-white/60 mt-3">
+            This preferences link isn’t valid anymore. Use the link in your most
+            recent SkyView email.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const update = (changes: Partial<SubscriberPreferences>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+    setSaveState("idle");
+  };
+
+  const toggleDay = (day: number) => {
+    const days = draft.deliveryDays.includes(day)
+      ? draft.deliveryDays.filter((value) => value !== day)
+      : [...draft.deliveryDays, day];
+    if (days.length === 0) return;
+    update({ deliveryDays: days });
+  };
+
+  const handleSelectSuggestion = (item: GeoSuggestion) => {
+    update({
+      location: {
+        name: formatSuggestionLabel(item),
+        lat: item.lat,
+        lon: item.lon,
+      },
+    });
+    setSearchQuery("");
+    setSuggestions([]);
+  };
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaveState("saving");
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          location: draft.location,
+          units: formatUnitSystem(draft.units),
+          timezone: draft.timezone,
+          minAlertSeverity: draft.minAlertSeverity,
+          deliveryHour: draft.deliveryHour,
+          deliveryDays: draft.deliveryDays,
+          paused: draft.paused,
+        }),
+      });
+      if (!response.ok) {
+        setSaveState("error");
+        return;
+      }
+      const payload = await response.json();
+      if (payload?.preferences) {
+        setPreferences(payload.preferences as SubscriberPreferences);
+        setDraft(payload.preferences as SubscriberPreferences);
+      }
+      setSaveState("saved");
+    } catch {
+      setSaveState("error");
+    }
+  };
+
+  return (
+    <div className="text-white relative">
+      <div className="weather-bg bg-night" />
+      <main className="relative z-10 min-h-screen px-4 py-10 max-w-2xl mx-auto">
+        <header className="flex items-center gap-3 mb-8">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-yellow-400 to-orange-500 flex items-center justify-center shadow-lg">
+            <span className="text-white text-lg">☀️</span>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Email preferences</h1>
+            <p className="text-sm text-white/50">{preferences.email}</p>
+          </div>
+        </header>
+
+        <form onSubmit={onSubmit} className="space-y-6">
+          <section className="glass rounded-2xl p-6">
+            <h2 className="text-lg font-semibold">Location</h2>
+            <p className="text-sm text-white/60 mt-1">
+              {draft.location?.name ?? "New York, NY"}
+            </p>
+            <div className="relative mt-4">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(event) => setSearchQuery(event.target.value)}
+                placeholder="Search a city or ZIP"
+                className="search-input w-full px-4 py-3 rounded-2xl text-white placeholder-white/50 outline-none text-sm font-medium"
+              />
+              {searchStatus === "error" ? (
+                <p className="text-xs text-red-200 mt-2">
+                  Search is unavailable right now.
+                </p>
+              ) : null}
+              {suggestions.length > 0 ? (
+                <div className="suggestions-dropdown absolute w-full mt-2 rounded-2xl overflow-hidden z-50">
+                  {suggestions.map((item) => (
+                    <button
+                      key={`${item.name}-${item.lat}-${item.lon}`}
+                      type="button"
+                      onClick={() => handleSelectSuggestion(item)}
+                      className="suggestion-item w-full px-4 py-3 text-left flex items-center gap-3 transition-all"
+                    >
+                      <span className="text-white/50">📍</span>
+                      <span className="font-medium">
+                        {formatSuggestionLabel(item)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          </section>
+
+          <section className="glass rounded-2xl p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="text-sm">
+              <span className="text-white/60">Units</span>
+              <select
+                value={typeof draft.units === "string" ? draft.units : "custom"}
+                onChange={(event) =>
+                  update({
+                    units:
+                      event.target.value === "custom"
+                        ? { ...resolveUnits(draft.units) }
+                        : (event.target.value as UnitPreset),
+                  })
+                }
+                className="search-input mt-2 w-full px-3 py-3 rounded-2xl text-white text-sm font-medium outline-none"
+              >
+                <option value="imperial">Imperial (°F, mph, in)</option>
+                <option value="metric">Metric (°C, km/h, mm)</option>
+                <option value="custom">Custom</option>
+              </select>
+            </label>
+            {typeof draft.units === "object" && (
+              <div className="sm:col-span-2 grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {(Object.keys(UNIT_OPTIONS) as Measure[]).map((measure) => (
+                  <label key={measure} className="text-xs">
+                    <span className="text-white/60">{MEASURE_LABELS[measure]}</span>
+                    <select
+                      value={resolveUnits(draft.units)[measure]}
+                      onChange={(event) =>
+                        update({
+                          units: {
+                            ...resolveUnits(draft.units),
+                            [measure]: event.target.value,
+                          },
+                        })
+                      }
+                      className="search-input mt-2 w-full px-3 py-2 rounded-2xl text-white text-sm font-medium outline-none"
+                    >
+                      {UNIT_OPTIONS[measure].map((unit) => (
+                        <option key={unit} value={unit}>
+                          {unit}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
+            <label className="text-sm">
+              <span className="text-white/60">Delivery time</span>
+              <select
+                value={draft.deliveryHour}
+                onChange={(event) =>
+                  update({ deliveryHour: Number.parseInt(event.target.value, 10) })
+                }
+                className="search-input mt-2 w-full px-3 py-3 rounded-2xl text-white text-sm font-medium outline-none"
+              >
+                {HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {formatHour(hour)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm">
+              <span className="text-white/60">Time zone</span>
+              <select
+                value={draft.timezone}
+                onChange={(event) => update({ timezone: event.target.value })}
+                className="search-input mt-2 w-full px-3 py-3 rounded-2xl text-white text-sm font-medium outline-none"
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm">
+              <span className="text-white/60">Alert emails</span>
+              <select
+                value={draft.minAlertSeverity}
+                onChange={(event) =>
+                  update({
+                    minAlertSeverity: event.target
+                      .value as SubscriberPreferences["minAlertSeverity"],
+                  })
+                }
+                className="search-input mt-2 w-full px-3 py-3 rounded-2xl text-white text-sm font-medium outline-none"
+              >
+                <option value="Extreme">Extreme alerts</option>
+                <option value="Severe">Severe alerts</option>
+                <option value="Moderate">Moderate alerts</option>
+                <option value="Minor">All alerts</option>
+              </select>
+            </label>
+          </section>
+
+          <section className="glass rounded-2xl p-6">
+            <h2 className="text-lg font-semibold">Delivery days</h2>
+            <p className="text-sm text-white/60 mt-1">
+              The morning brief arrives at {formatHour(draft.deliveryHour)} on
+              the days you pick.
+            </p>
+            <div className="flex flex-wrap gap-2 mt-4">
+              {DAYS.map((day) => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleDay(day.value)}
+                  className={`unit-toggle px-3 py-1.5 rounded-xl text-sm font-semibold ${
+                    draft.deliveryDays.includes(day.value) ? "unit-active" : ""
+                  }`}
+                  aria-pressed={draft.deliveryDays.includes(day.value)}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="glass rounded-2xl p-6 flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold">Pause emails</h2>
+              <p className="text-sm text-white/60 mt-1">
+                Keep your settings but stop the morning brief and alerts.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ paused: !draft.paused })}
+              className={`unit-toggle px-4 py-2 rounded-xl text-sm font-semibold ${
+                draft.paused ? "unit-active" : ""
+              }`}
+              aria-pressed={draft.paused}
+            >
+              {draft.paused ? "Paused" : "Active"}
+            </button>
+          </section>
+
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              className="px-5 py-3 bg-white/20 hover:bg-white/30 rounded-xl text-sm font-semibold transition-all"
+              disabled={saveState === "saving"}
+            >
+              {saveState === "saving" ? "Saving" : "Save preferences"}
+            </button>
+            {saveState === "saved" ? (
+              <span className="text-xs text-green-200">Saved</span>
+            ) : null}
+            {saveState === "error" ? (
+              <span className="text-xs text-red-200">Try again</span>
+            ) : null}
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import PreferencesView from "@/app/preferences/PreferencesView";
+import {
+  findSubscriberByToken,
+  toSubscriberPreferences,
+} from "@/lib/subscribers";
+
+export const dynamic = "force-dynamic";
+
+type PreferencesPageProps = {
+  searchParams: Promise<{ token?: string | string[] }>;
+};
+
+export default async function PreferencesPage({ searchParams }: PreferencesPageProps) {
+  const { token } = await searchParams;
+  const subscriber =
+    typeof token === "string" ? await findSubscriberByToken(token) : null;
+
+  return (
+    <PreferencesView
+      token={typeof token === "string" ? token : ""}
+      initialPreferences={subscriber ? toSubscriberPreferences(subscriber) : null}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+import { convertSnowfall, snowfallUnit, type Units } from "@/lib/units";
+
+// Grid totals carry real uncertainty, so snow reads as a whole-unit range
+// ("2–4 in", "5–7 cm") and rain to a tenth of an inch or a whole millimetre.
+// Trace amounts return null.
+export const formatSnowfall = (inches: number | null, units: Units) => {
+  if (inches === null || inches < 0.1) return null;
+  const depth = convertSnowfall(inches, units) ?? 0;
+  const unit = snowfallUnit(units);
+  if (depth < 1) return `under 1 ${unit}`;
+  const low = Math.floor(depth);
+  const high = Math.max(low + 1, Math.ceil(depth * 1.25));
+  return `${low}–${high} ${unit}`;
+};
+
+export const formatPrecipitation = (inches: number | null, units: Units) => {
+  if (inches === null || inches < 0.01) return null;
+  if (units.precipitation === "mm") {
+    const mm = inches * 25.4;
+    return mm < 1 ? "under 1 mm" : `${Math.round(mm)} mm`;
+  }
+  if (inches < 0.1) return "under 0.1 in";
+  return `${inches.toFixed(1)} in`;
+};
+
+// "2–4 in of snow" or "0.6 in of rain" for the day, or null when it stays
+// dry. Precipitation is liquid-equivalent and already counts melted snow, so
+// snow wins when both are present.
+export const describeAccumulation = (
+  day: {
+    precipitationIn: number | null;
+    snowfallIn: number | null;
+  },
+  units: Units
+) => {
+  const snow = formatSnowfall(day.snowfallIn, units);
+  if (snow) return `${snow} of snow`;
+  const rain = formatPrecipitation(day.precipitationIn, units);
+  return rain ? `${rain} of rain` : null;
+};
@@ -0,0 +1,108 @@
+import { after } from "next/server";
+import {
+  API_KEY_HEADER,
+  findActiveApiKey,
+  flushApiKeyUsage,
+  isApiKeyUsageFlushDue,
+  trackApiKeyUsage,
+} from "@/lib/api-keys";
+import { createTokenBucketLimiter, rateLimitHeaders } from "@/lib/rate-limit";
+
+// Requests per minute. Keys are optional: anonymous callers share a smaller
+// allowance per IP, and a key may carry its own limit.
+const DEFAULT_ANONYMOUS_PER_MINUTE = 30;
+const DEFAULT_KEYED_PER_MINUTE = 300;
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const resolveRateLimits = () => ({
+  anonymous: readLimit(
+    process.env.API_RATE_LIMIT_ANONYMOUS,
+    DEFAULT_ANONYMOUS_PER_MINUTE
+  ),
+  keyed: readLimit(process.env.API_RATE_LIMIT_KEYED, DEFAULT_KEYED_PER_MINUTE),
+});
+
+const limiter = createTokenBucketLimiter();
+
+// Clients can send any X-Forwarded-For they like, so only hops our own proxies
+// added are believed. On Vercel the platform's x-vercel-forwarded-for is used.
+// Elsewhere API_TRUSTED_PROXY_HOPS (default 1) is how many proxies sit in front
+// of the app; each appends the address it saw, so the client is that many
+// entries from the end and anything earlier is ignored.
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+export const resolveClientIp = (request: Request) => {
+  if (process.env.VERCEL) {
+    const platform = request.headers
+      .get("x-vercel-forwarded-for")
+      ?.split(",")[0]
+      ?.trim();
+    if (platform) return platform;
+  }
+  const hops = readLimit(
+    process.env.API_TRUSTED_PROXY_HOPS,
+    DEFAULT_TRUSTED_PROXY_HOPS
+  );
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - hops)] ?? "unknown";
+};
+
+// Outside a request (scripts, tests) `after` throws and the promise simply runs.
+const runInBackground = (task: Promise<unknown>) => {
+  try {
+    after(task);
+  } catch {
+    void task;
+  }
+};
+
+export type ApiAccess = {
+  status: "allowed" | "invalid_api_key" | "rate_limited";
+  keyId: string | null;
+  // RateLimit-* (and Retry-After) headers for the response, whatever it is.
+  headers: Record<string, string>;
+};
+
+export const checkApiAccess = async (request: Request): Promise<ApiAccess> => {
+  const limits = resolveRateLimits();
+  const secret = request.headers.get(API_KEY_HEADER)?.trim();
+
+  if (secret) {
+    // If the key store is unreachable the caller is limited by IP instead;
+    // rate limiting should not take the API down with it.
+    const lookup = await findActiveApiKey(secret).then(
+      (key) => ({ key }),
+      () => null
+    );
+    if (lookup && !lookup.key) {
+      return { status: "invalid_api_key", keyId: null, headers: {} };
+    }
+    if (lookup?.key) {
+      const { key } = lookup;
+      const result = limiter.take(`key:${key.id}`, key.ratePerMinute ?? limits.keyed);
+      trackApiKeyUsage(key.id, !result.allowed);
+      if (isApiKeyUsageFlushDue()) {
+        runInBackground(flushApiKeyUsage().catch(() => undefined));
+      }
+      return {
+        status: result.allowed ? "allowed" : "rate_limited",
+        keyId: key.id,
+        headers: rateLimitHeaders(result),
+      };
+    }
+  }
+
+  const result = limiter.take(`ip:${resolveClientIp(request)}`, limits.anonymous);
+  return {
+    status: result.allowed ? "allowed" : "rate_limited",
+    keyId: null,
+    headers: rateLimitHeaders(result),
+  };
+};
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import type { ApiKey, ApiKeyStore } from "@/lib/api-key-store";
+import { createFileMutex, writeFileAtomic } from "@/lib/file-lock";
+
+type KeyDocument = { keys: ApiKey[] };
+
+export const createJsonApiKeyStore = (filePath: string): ApiKeyStore => {
+  const { exclusive } = createFileMutex(filePath);
+
+  const readAll = async (): Promise<ApiKey[]> => {
+    try {
+      const parsed = JSON.parse(
+        await fs.readFile(filePath, "utf-8")
+      ) as Partial<KeyDocument>;
+      return Array.isArray(parsed.keys) ? parsed.keys : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return [];
+    }
+  };
+
+  const writeAll = (keys: ApiKey[]) =>
+    writeFileAtomic(filePath, JSON.stringify({ keys }, null, 2));
+
+  return {
+    list: () => exclusive(readAll),
+
+    findByHash: (hash) =>
+      exclusive(async () => (await readAll()).find((key) => key.hash === hash) ?? null),
+
+    insert: (key) =>
+      exclusive(async () => {
+        await writeAll([...(await readAll()), key]);
+      }),
+
+    revoke: (id, revokedAt) =>
+      exclusive(async () => {
+        const keys = await readAll();
+        const key = keys.find((candidate) => candidate.id === id);
+        if (!key || key.revokedAt) return false;
+        key.revokedAt = revokedAt;
+        await writeAll(keys);
+        return true;
+      }),
+
+    recordUsage: (deltas) =>
+      exclusive(async () => {
+        if (deltas.length === 0) return;
+        const keys = await readAll();
+        deltas.forEach((delta) => {
+          const key = keys.find((candidate) => candidate.id === delta.id);
+          if (!key) return;
+          key.usage = {
+            requests: key.usage.requests + delta.requests,
+            limited: key.usage.limited + delta.limited,
+            lastUsedAt: delta.lastUsedAt,
+          };
+        });
+        await writeAll(keys);
+      }),
+  };
+};
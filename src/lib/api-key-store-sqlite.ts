@@ -0,0 +1,116 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { ApiKey, ApiKeyStore, UsageDelta } from "@/lib/api-key-store";
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  hash: string;
+  rate_per_minute: number | null;
+  created_at: string;
+  revoked_at: string | null;
+  requests: number;
+  limited: number;
+  last_used_at: string | null;
+};
+
+// A table of its own beside `subscribers`; it is not versioned with the
+// subscriber migrations.
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    hash TEXT NOT NULL UNIQUE,
+    rate_per_minute INTEGER,
+    created_at TEXT NOT NULL,
+    revoked_at TEXT,
+    requests INTEGER NOT NULL DEFAULT 0,
+    limited INTEGER NOT NULL DEFAULT 0,
+    last_used_at TEXT
+  )`,
+];
+
+const rowToApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.prefix,
+  hash: row.hash,
+  ratePerMinute: row.rate_per_minute,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+  usage: {
+    requests: row.requests,
+    limited: row.limited,
+    lastUsedAt: row.last_used_at,
+  },
+});
+
+export const createSqliteApiKeyStore = (dbPath: string): ApiKeyStore => {
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  SCHEMA.forEach((statement) => db.exec(statement));
+
+  const selectAll = db.prepare<[], ApiKeyRow>(
+    "SELECT * FROM api_keys ORDER BY created_at"
+  );
+  const selectByHash = db.prepare<[string], ApiKeyRow>(
+    "SELECT * FROM api_keys WHERE hash = ?"
+  );
+  const insertRow = db.prepare<ApiKeyRow>(
+    `INSERT INTO api_keys
+       (id, name, prefix, hash, rate_per_minute, created_at, revoked_at,
+        requests, limited, last_used_at)
+     VALUES
+       (@id, @name, @prefix, @hash, @rate_per_minute, @created_at, @revoked_at,
+        @requests, @limited, @last_used_at)`
+  );
+  const revokeRow = db.prepare<[string, string]>(
+    "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL"
+  );
+  const addUsage = db.prepare<UsageDelta>(
+    `UPDATE api_keys
+     SET requests = requests + @requests,
+         limited = limited + @limited,
+         last_used_at = @lastUsedAt
+     WHERE id = @id`
+  );
+
+  const applyUsage = db.transaction((deltas: UsageDelta[]) => {
+    deltas.forEach((delta) => addUsage.run(delta));
+  });
+
+  return {
+    list: async () => selectAll.all().map(rowToApiKey),
+
+    findByHash: async (hash) => {
+      const row = selectByHash.get(hash);
+      return row ? rowToApiKey(row) : null;
+    },
+
+    insert: async (key) => {
+      insertRow.run({
+        id: key.id,
+        name: key.name,
+        prefix: key.prefix,
+        hash: key.hash,
+        rate_per_minute: key.ratePerMinute,
+        created_at: key.createdAt,
+        revoked_at: key.revokedAt,
+        requests: key.usage.requests,
+        limited: key.usage.limited,
+        last_used_at: key.usage.lastUsedAt,
+      });
+    },
+
+    revoke: async (id, revokedAt) => revokeRow.run(revokedAt, id).changes > 0,
+
+    recordUsage: async (deltas) => {
+      if (deltas.length > 0) applyUsage.immediate(deltas);
+    },
+  };
+};
@@ -0,0 +1,70 @@
+import path from "path";
+import { resolveStoreKind } from "@/lib/subscriber-store";
+
+export type ApiKeyUsage = {
+  requests: number;
+  // Requests answered 429.
+  limited: number;
+  lastUsedAt: string | null;
+};
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  // The first characters of the secret, so an operator can tell keys apart.
+  prefix: string;
+  // SHA-256 of the secret; the secret itself is shown once and never stored.
+  hash: string;
+  // Null uses the default keyed limit.
+  ratePerMinute: number | null;
+  createdAt: string;
+  revokedAt: string | null;
+  usage: ApiKeyUsage;
+};
+
+export type UsageDelta = {
+  id: string;
+  requests: number;
+  limited: number;
+  lastUsedAt: string;
+};
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKey[]>;
+  findByHash(hash: string): Promise<ApiKey | null>;
+  insert(key: ApiKey): Promise<void>;
+  // Returns false for unknown or already revoked keys.
+  revoke(id: string, revokedAt: string): Promise<boolean>;
+  // Adds to the stored counters; unknown ids are skipped.
+  recordUsage(deltas: UsageDelta[]): Promise<void>;
+}
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+let storePromise: Promise<ApiKeyStore> | null = null;
+
+// Keys live with the subscribers: in their database when that is SQLite,
+// otherwise in a JSON file beside subscribers.json.
+const createStore = async (): Promise<ApiKeyStore> => {
+  if (resolveStoreKind() === "sqlite") {
+    const { createSqliteApiKeyStore } = await import("@/lib/api-key-store-sqlite");
+    return createSqliteApiKeyStore(
+      process.env.SUBSCRIBER_DB_PATH ?? path.join(DATA_DIR, "subscribers.db")
+    );
+  }
+
+  const { createJsonApiKeyStore } = await import("@/lib/api-key-store-json");
+  return createJsonApiKeyStore(
+    process.env.API_KEY_FILE_PATH ?? path.join(DATA_DIR, "api-keys.json")
+  );
+};
+
+export const getApiKeyStore = () => {
+  if (!storePromise) {
+    storePromise = createStore().catch((error) => {
+      storePromise = null;
+      throw error;
+    });
+  }
+  return storePromise;
+};
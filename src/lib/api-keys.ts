@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import {
+  getApiKeyStore,
+  type ApiKey,
+  type UsageDelta,
+} from "@/lib/api-key-store";
+
+export const API_KEY_HEADER = "X-API-Key";
+
+const SECRET_PREFIX = "skv_";
+export const MAX_API_KEY_NAME_LENGTH = 80;
+
+// What admins see: everything but the hash.
+export type ApiKeySummary = Omit<ApiKey, "hash">;
+
+const toSummary = (key: ApiKey): ApiKeySummary => ({
+  id: key.id,
+  name: key.name,
+  prefix: key.prefix,
+  ratePerMinute: key.ratePerMinute,
+  createdAt: key.createdAt,
+  revokedAt: key.revokedAt,
+  usage: key.usage,
+});
+
+export const hashApiKey = (secret: string) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+export const isRatePerMinute = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 && value <= 10_000;
+
+// Returns the secret exactly once; only its hash is stored.
+export const issueApiKey = async (options: {
+  name: string;
+  ratePerMinute?: number | null;
+}) => {
+  const secret = `${SECRET_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const key: ApiKey = {
+    id: crypto.randomUUID(),
+    name: options.name,
+    prefix: secret.slice(0, SECRET_PREFIX.length + 4),
+    hash: hashApiKey(secret),
+    ratePerMinute: options.ratePerMinute ?? null,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    usage: { requests: 0, limited: 0, lastUsedAt: null },
+  };
+  const store = await getApiKeyStore();
+  await store.insert(key);
+  return { secret, key: toSummary(key) };
+};
+
+export const listApiKeys = async () => {
+  const store = await getApiKeyStore();
+  return (await store.list()).map(toSummary);
+};
+
+// Lookups are cached briefly so a busy key does not read the store on every
+// request. A revocation applies here at once and on other instances within
+// the TTL.
+const KEY_CACHE_TTL_MS = 30 * 1000;
+const KEY_CACHE_MAX_ENTRIES = 1000;
+const keyCache = new Map<string, { key: ApiKey | null; expiresAt: number }>();
+
+export const revokeApiKey = async (id: string) => {
+  const store = await getApiKeyStore();
+  const revoked = await store.revoke(id, new Date().toISOString());
+  keyCache.clear();
+  return revoked;
+};
+
+// Null for malformed, unknown and revoked keys alike.
+export const findActiveApiKey = async (secret: string) => {
+  if (!secret.startsWith(SECRET_PREFIX)) return null;
+  const hash = hashApiKey(secret);
+  const cached = keyCache.get(hash);
+  if (cached && cached.expiresAt > Date.now()) return cached.key;
+
+  const store = await getApiKeyStore();
+  const found = await store.findByHash(hash);
+  const key = found && !found.revokedAt ? found : null;
+  if (keyCache.size >= KEY_CACHE_MAX_ENTRIES) keyCache.clear();
+  keyCache.set(hash, { key, expiresAt: Date.now() + KEY_CACHE_TTL_MS });
+  return key;
+};
+
+// Usage is counted in memory and written in batches: once the interval has
+// passed or enough requests are waiting, whichever comes first. Counts not yet
+// written are lost if the instance goes away.
+const USAGE_FLUSH_INTERVAL_MS = 30 * 1000;
+const USAGE_FLUSH_THRESHOLD = 100;
+
+const pendingUsage = new Map<string, UsageDelta>();
+let pendingRequests = 0;
+let lastFlushAt = 0;
+
+export const trackApiKeyUsage = (id: string, limited: boolean) => {
+  const delta = pendingUsage.get(id) ?? {
+    id,
+    requests: 0,
+    limited: 0,
+    lastUsedAt: "",
+  };
+  delta.requests += 1;
+  if (limited) delta.limited += 1;
+  delta.lastUsedAt = new Date().toISOString();
+  pendingUsage.set(id, delta);
+  pendingRequests += 1;
+};
+
+export const isApiKeyUsageFlushDue = () =>
+  pendingRequests >= USAGE_FLUSH_THRESHOLD ||
+  (pendingRequests > 0 && Date.now() - lastFlushAt >= USAGE_FLUSH_INTERVAL_MS);
+
+export const flushApiKeyUsage = async () => {
+  if (pendingUsage.size === 0) return;
+  const deltas = Array.from(pendingUsage.values());
+  pendingUsage.clear();
+  pendingRequests = 0;
+  lastFlushAt = Date.now();
+  try {
+    const store = await getApiKeyStore();
+    await store.recordUsage(deltas);
+  } catch (error) {
+    // Put the counts back for the next flush.
+    deltas.forEach((delta) => {
+      const pending = pendingUsage.get(delta.id);
+      pendingUsage.set(
+        delta.id,
+        pending
+          ? {
+              ...pending,
+              requests: pending.requests + delta.requests,
+              limited: pending.limited + delta.limited,
+            }
+          : delta
+      );
+      pendingRequests += delta.requests;
+    });
+    throw error;
+  }
+};
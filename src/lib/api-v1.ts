@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import type { WeatherPayload } from "@/lib/nws";
+import { normalizeLocationName } from "@/lib/subscribers";
+import {
+  parseUnitSystem,
+  type ConvertedWeather,
+  type UnitSystem,
+} from "@/lib/units";
+import type { WeatherMeta } from "@/lib/weather-pipeline";
+
+// The public, versioned surface. Unlike /api/weather it never guesses: a
+// missing or malformed parameter is a 400, not a forecast for New York.
+// Response types here are what scripts/generate-openapi.mjs publishes.
+
+export type ApiErrorCode =
+  | "invalid_query"
+  | "invalid_api_key"
+  | "rate_limited"
+  | "upstream_unavailable";
+
+export type ApiError = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // One entry per offending query parameter.
+    details?: Array<{ param: string; message: string }>;
+  };
+};
+
+export type WeatherResponse = {
+  data: WeatherPayload;
+  meta: WeatherMeta;
+  // Present when `units` was requested: the numbers in those units.
+  converted?: ConvertedWeather;
+};
+
+export const apiError = (
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: ApiError["error"]["details"],
+  headers?: Record<string, string>
+) =>
+  NextResponse.json<ApiError>(
+    { error: details ? { code, message, details } : { code, message } },
+    { status, headers }
+  );
+
+export const COORDINATE_RANGES = {
+  lat: { min: -90, max: 90 },
+  lon: { min: -180, max: 180 },
+} as const;
+
+export const WEATHER_QUERY_PARAMS = ["lat", "lon", "name", "units"] as const;
+
+export type WeatherQuery = {
+  lat: number;
+  lon: number;
+  name: string | null;
+  units: UnitSystem | null;
+};
+
+// Plain decimal degrees only: no exponents, hex or trailing junk, which
+// Number.parseFloat would otherwise quietly accept.
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+const parseCoordinate = (value: string, param: keyof typeof COORDINATE_RANGES) => {
+  const { min, max } = COORDINATE_RANGES[param];
+  const parsed = DECIMAL_PATTERN.test(value) ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max
+    ? parsed
+    : null;
+};
+
+export const parseWeatherQuery = (
+  searchParams: URLSearchParams
+):
+  | { query: WeatherQuery; issues: null }
+  | { query: null; issues: NonNullable<ApiError["error"]["details"]> } => {
+  const issues: NonNullable<ApiError["error"]["details"]> = [];
+  const known: readonly string[] = WEATHER_QUERY_PARAMS;
+
+  new Set(searchParams.keys()).forEach((param) => {
+    if (!known.includes(param)) {
+      issues.push({ param, message: "Unknown parameter" });
+    } else if (searchParams.getAll(param).length > 1) {
+      issues.push({ param, message: "Must be given once" });
+    }
+  });
+
+  const readCoordinate = (param: keyof typeof COORDINATE_RANGES) => {
+    const value = searchParams.get(param);
+    if (value === null || value.trim() === "") {
+      issues.push({ param, message: "Required" });
+      return null;
+    }
+    const parsed = parseCoordinate(value.trim(), param);
+    if (parsed === null) {
+      const { min, max } = COORDINATE_RANGES[param];
+      issues.push({
+        param,
+        message: `Must be a decimal number from ${min} to ${max}`,
+      });
+    }
+    return parsed;
+  };
+  const lat = readCoordinate("lat");
+  const lon = readCoordinate("lon");
+
+  const nameParam = searchParams.get("name");
+  const name = nameParam === null ? null : normalizeLocationName(nameParam);
+  if (nameParam !== null && !name) {
+    issues.push({ param: "name", message: "Not a valid location name" });
+  }
+
+  const unitsParam = searchParams.get("units");
+  const units = unitsParam === null ? null : parseUnitSystem(unitsParam);
+  if (unitsParam !== null && !units) {
+    issues.push({
+      param: "units",
+      message: 'Use "imperial", "metric" or overrides such as "metric,speed:mph"',
+    });
+  }
+
+  if (issues.length > 0 || lat === null || lon === null) {
+    return { query: null, issues };
+  }
+  return { query: { lat, lon, name, units }, issues: null };
+};
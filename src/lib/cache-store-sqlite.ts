@@ -0,0 +1,84 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { CacheRecord, CacheStore } from "@/lib/cache-store";
+
+type CacheRow = {
+  key: string;
+  data: string;
+  fetched_at: number;
+  accessed_at: number;
+};
+
+// Shared by every instance pointing at the same file, and survives restarts.
+export const createSqliteCacheStore = (
+  dbPath: string,
+  maxEntries: number,
+  table = "weather_cache"
+): CacheStore => {
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.exec(`CREATE TABLE IF NOT EXISTS ${table} (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    accessed_at INTEGER NOT NULL
+  )`);
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS ${table}_accessed ON ${table} (accessed_at)`
+  );
+
+  const selectRow = db.prepare<[string], CacheRow>(
+    `SELECT * FROM ${table} WHERE key = ?`
+  );
+  const touchRow = db.prepare<[number, string]>(
+    `UPDATE ${table} SET accessed_at = ? WHERE key = ?`
+  );
+  const upsertRow = db.prepare<CacheRow>(
+    `INSERT OR REPLACE INTO ${table} (key, data, fetched_at, accessed_at)
+     VALUES (@key, @data, @fetched_at, @accessed_at)`
+  );
+  const evictRows = db.prepare<[number]>(
+    `DELETE FROM ${table} WHERE key NOT IN (
+       SELECT key FROM ${table} ORDER BY accessed_at DESC LIMIT ?
+     )`
+  );
+  const deleteRow = db.prepare<[string]>(`DELETE FROM ${table} WHERE key = ?`);
+  const countRows = db.prepare<[], { total: number }>(
+    `SELECT COUNT(*) AS total FROM ${table}`
+  );
+
+  const writeRow = db.transaction((row: CacheRow) => {
+    upsertRow.run(row);
+    evictRows.run(maxEntries);
+  });
+
+  return {
+    get: async <T>(key: string) => {
+      const row = selectRow.get(key);
+      if (!row) return null;
+      touchRow.run(Date.now(), key);
+      return {
+        data: JSON.parse(row.data) as T,
+        fetchedAt: row.fetched_at,
+      } satisfies CacheRecord<T>;
+    },
+
+    set: async (key, record) => {
+      writeRow.immediate({
+        key,
+        data: JSON.stringify(record.data),
+        fetched_at: record.fetchedAt,
+        accessed_at: Date.now(),
+      });
+    },
+
+    delete: async (key) => {
+      deleteRow.run(key);
+    },
+
+    size: async () => countRows.get()?.total ?? 0,
+  };
+};
@@ -0,0 +1,106 @@
+import path from "path";
+
+export type CacheRecord<T> = { data: T; fetchedAt: number };
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheRecord<T> | null>;
+  set<T>(key: string, record: CacheRecord<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  size(): Promise<number>;
+}
+
+export type CacheStoreKind = "memory" | "sqlite";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+const DEFAULT_MAX_ENTRIES = 500;
+// Point metadata lives for days and is small; it gets its own cap so forecast
+// and alert churn never evicts it.
+const DEFAULT_METADATA_MAX_ENTRIES = 5000;
+
+export const resolveCacheStoreKind = (): CacheStoreKind =>
+  process.env.WEATHER_CACHE_STORE === "sqlite" ? "sqlite" : "memory";
+
+const resolveMaxEntries = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Least-recently-used eviction on top of Map insertion order: a read moves the
+// key to the end, and inserts beyond the cap drop from the front.
+export const createMemoryCacheStore = (maxEntries: number): CacheStore => {
+  const entries = new Map<string, CacheRecord<unknown>>();
+
+  return {
+    get: async <T>(key: string) => {
+      const record = entries.get(key);
+      if (!record) return null;
+      entries.delete(key);
+      entries.set(key, record);
+      return record as CacheRecord<T>;
+    },
+
+    set: async (key, record) => {
+      entries.delete(key);
+      entries.set(key, record);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    delete: async (key) => {
+      entries.delete(key);
+    },
+
+    size: async () => entries.size,
+  };
+};
+
+// Both stores share a backend; under SQLite each gets its own table.
+const createStore = async (
+  table: string,
+  maxEntries: number
+): Promise<CacheStore> => {
+  if (resolveCacheStoreKind() === "sqlite") {
+    const { createSqliteCacheStore } = await import("@/lib/cache-store-sqlite");
+    return createSqliteCacheStore(
+      process.env.WEATHER_CACHE_PATH ?? path.join(DATA_DIR, "weather-cache.db"),
+      maxEntries,
+      table
+    );
+  }
+  return createMemoryCacheStore(maxEntries);
+};
+
+const lazyStore = (create: () => Promise<CacheStore>) => {
+  let storePromise: Promise<CacheStore> | null = null;
+  return () => {
+    if (!storePromise) {
+      storePromise = create().catch((error) => {
+        storePromise = null;
+        throw error;
+      });
+    }
+    return storePromise;
+  };
+};
+
+// Forecasts and alerts.
+export const getCacheStore = lazyStore(() =>
+  createStore(
+    "weather_cache",
+    resolveMaxEntries(process.env.WEATHER_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES)
+  )
+);
+
+// NWS point metadata (grid office, stations, time zone).
+export const getMetadataCacheStore = lazyStore(() =>
+  createStore(
+    "point_metadata_cache",
+    resolveMaxEntries(
+      process.env.WEATHER_METADATA_CACHE_MAX_ENTRIES,
+      DEFAULT_METADATA_MAX_ENTRIES
+    )
+  )
+);
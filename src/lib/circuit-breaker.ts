@@ -0,0 +1,65 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export class CircuitOpenError extends Error {
+  constructor(readonly circuit: string) {
+    super(`${circuit} circuit is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+type CircuitOptions = {
+  name: string;
+  // Consecutive failures that open the circuit.
+  failureThreshold: number;
+  // How long the circuit stays open before letting a single trial through.
+  cooldownMs: number;
+  // Errors that say nothing about upstream health (a 404 for a point outside
+  // coverage) should not count towards opening the circuit.
+  isFailure?: (error: unknown) => boolean;
+};
+
+export const createCircuitBreaker = ({
+  name,
+  failureThreshold,
+  cooldownMs,
+  isFailure = () => true,
+}: CircuitOptions) => {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const getState = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt < cooldownMs ? "open" : "half-open";
+  };
+
+  const run = async <T>(task: () => Promise<T>): Promise<T> => {
+    const state = getState();
+    if (state === "open" || (state === "half-open" && trialInFlight)) {
+      throw new CircuitOpenError(name);
+    }
+
+    const isTrial = state === "half-open";
+    if (isTrial) trialInFlight = true;
+    try {
+      const result = await task();
+      failures = 0;
+      openedAt = null;
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        failures += 1;
+        if (isTrial || failures >= failureThreshold) openedAt = Date.now();
+      } else if (isTrial) {
+        // The upstream answered, so it is healthy again.
+        failures = 0;
+        openedAt = null;
+      }
+      throw error;
+    } finally {
+      if (isTrial) trialInFlight = false;
+    }
+  };
+
+  return { run, getState };
+};
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveAccessRole, signRequest } from "@/lib/cron-auth";
+import { SCENARIO_NOW } from "@/test/scenarios";
+
+const CRON_SECRET = "fixture-cron-secret";
+
+const signedRequest = (url: string, signedPath: string) => {
+  const timestamp = SCENARIO_NOW.getTime();
+  return new Request(url, {
+    method: "POST",
+    headers: {
+      "X-Signature-Timestamp": String(timestamp),
+      "X-Signature": `sha256=${signRequest(CRON_SECRET, "POST", signedPath, timestamp)}`,
+    },
+  });
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+  vi.stubEnv("CRON_SECRET", CRON_SECRET);
+  vi.stubEnv("ADMIN_SECRET", "fixture-admin-secret");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("resolveAccessRole", () => {
+  it("accepts a request signed over its path and query", () => {
+    const request = signedRequest(
+      "https://skyview.test/api/notifications/daily?email=reader%40example.com",
+      "/api/notifications/daily?email=reader%40example.com"
+    );
+
+    expect(resolveAccessRole(request)).toBe("cron");
+  });
+
+  it("rejects a signed request replayed with a different query", () => {
+    const request = signedRequest(
+      "https://skyview.test/api/notifications/daily?force=1",
+      "/api/notifications/daily"
+    );
+
+    expect(resolveAccessRole(request)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+// "cron" may run scheduled jobs; "admin" may also force sends and target a
+// single subscriber.
+export type AccessRole = "cron" | "admin";
+
+// Signed requests older (or newer) than this are rejected as replays.
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const resolveSecrets = () => ({
+  // Vercel Cron sends `Authorization: Bearer $CRON_SECRET` on its own.
+  cron: process.env.CRON_SECRET,
+  admin: process.env.ADMIN_SECRET,
+});
+
+const safeEqual = (a: string, b: string) => {
+  const left = crypto.createHash("sha256").update(a).digest();
+  const right = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(left, right);
+};
+
+// `path` includes the query string, so a captured request cannot be replayed
+// with different options such as `?force=1`.
+export const signRequest = (
+  secret: string,
+  method: string,
+  path: string,
+  timestamp: number
+) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${method.toUpperCase()}.${path}`)
+    .digest("hex");
+
+// Accepts either `Authorization: Bearer <secret>` or an HMAC over the
+// timestamp, method, path and query sent as `X-Signature-Timestamp` (unix ms)
+// and `X-Signature: sha256=<hex>`.
+const matchesSecret = (request: Request, secret: string) => {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return safeEqual(authorization.slice("Bearer ".length), secret);
+  }
+
+  const signature = request.headers.get("x-signature");
+  const timestamp = Number(request.headers.get("x-signature-timestamp"));
+  if (!signature?.startsWith("sha256=") || !Number.isFinite(timestamp)) {
+    return false;
+  }
+  if (Math.abs(Date.now() - timestamp) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const { pathname, search } = new URL(request.url);
+  return safeEqual(
+    signature.slice("sha256=".length),
+    signRequest(secret, request.method, `${pathname}${search}`, timestamp)
+  );
+};
+
+export const resolveAccessRole = (request: Request): AccessRole | null => {
+  const secrets = resolveSecrets();
+  if (secrets.admin && matchesSecret(request, secrets.admin)) return "admin";
+  if (secrets.cron && matchesSecret(request, secrets.cron)) return "cron";
+
+  // Local development works without secrets; production never does.
+  if (!secrets.admin && !secrets.cron && process.env.NODE_ENV === "development") {
+    return "admin";
+  }
+  return null;
+};
+
+// Returns an error response when the request lacks the role, otherwise null.
+export const requireRole = (request: Request, role: AccessRole) => {
+  const granted = resolveAccessRole(request);
+  if (!granted) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (role === "admin" && granted !== "admin") {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+  return null;
+};
@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import {
+  retentionCutoff,
+  type DeliveryAttempt,
+  type DeliveryLog,
+  type DispatchCheckpoint,
+  type RetryEntry,
+  type RunLease,
+} from "@/lib/delivery-log";
+import { createFileMutex, writeFileAtomic } from "@/lib/file-lock";
+
+type LogDocument = {
+  attempts: DeliveryAttempt[];
+  retries: RetryEntry[];
+  checkpoint: DispatchCheckpoint | null;
+  leases: RunLease[];
+};
+
+export const createJsonDeliveryLog = (filePath: string): DeliveryLog => {
+  const { exclusive } = createFileMutex(filePath);
+
+  const readAll = async (): Promise<LogDocument> => {
+    try {
+      const parsed = JSON.parse(
+        await fs.readFile(filePath, "utf-8")
+      ) as Partial<LogDocument>;
+      return {
+        attempts: Array.isArray(parsed.attempts) ? parsed.attempts : [],
+        retries: Array.isArray(parsed.retries) ? parsed.retries : [],
+        checkpoint: parsed.checkpoint ?? null,
+        leases: Array.isArray(parsed.leases) ? parsed.leases : [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return { attempts: [], retries: [], checkpoint: null, leases: [] };
+    }
+  };
+
+  const writeAll = (document: LogDocument) =>
+    writeFileAtomic(filePath, JSON.stringify(document, null, 2));
+
+  return {
+    record: (attempts) =>
+      exclusive(async () => {
+        if (attempts.length === 0) return;
+        const document = await readAll();
+        const cutoff = retentionCutoff();
+        await writeAll({
+          ...document,
+          attempts: [...document.attempts, ...attempts].filter(
+            (entry) => entry.attemptedAt >= cutoff
+          ),
+        });
+      }),
+
+    listAttempts: ({ email, limit = 100 } = {}) =>
+      exclusive(async () => {
+        const { attempts } = await readAll();
+        return attempts
+          .filter((entry) => !email || entry.email === email)
+          .reverse()
+          .slice(0, limit);
+      }),
+
+    listSent: (since) =>
+      exclusive(async () =>
+        (await readAll()).attempts
+          .filter((entry) => entry.status === "sent" && entry.attemptedAt >= since)
+          .map(({ email, sendOn }) => ({ email, sendOn }))
+      ),
+
+    listRetries: () => exclusive(async () => (await readAll()).retries),
+
+    scheduleRetries: (entries) =>
+      exclusive(async () => {
+        if (entries.length === 0) return;
+        const document = await readAll();
+        const emails = new Set(entries.map((entry) => entry.email));
+        await writeAll({
+          ...document,
+          retries: [
+            ...document.retries.filter((entry) => !emails.has(entry.email)),
+            ...entries,
+          ],
+        });
+      }),
+
+    clearRetries: (emails) =>
+      exclusive(async () => {
+        const document = await readAll();
+        const retries = document.retries.filter(
+          (entry) => !emails.includes(entry.email)
+        );
+        if (retries.length === document.retries.length) return;
+        await writeAll({ ...document, retries });
+      }),
+
+    getCheckpoint: () => exclusive(async () => (await readAll()).checkpoint),
+
+    saveCheckpoint: (checkpoint) =>
+      exclusive(async () => {
+        const document = await readAll();
+        await writeAll({ ...document, checkpoint });
+      }),
+
+    claimRun: (lease, now) =>
+      exclusive(async () => {
+        const document = await readAll();
+        const held = document.leases.find((entry) => entry.run === lease.run);
+        if (held && held.owner !== lease.owner && held.expiresAt > now) {
+          return false;
+        }
+        await writeAll({
+          ...document,
+          leases: [
+            ...document.leases.filter((entry) => entry.run !== lease.run),
+            lease,
+          ],
+        });
+        return true;
+      }),
+
+    releaseRun: (owner) =>
+      exclusive(async () => {
+        const document = await readAll();
+        if (!document.leases.some((entry) => entry.owner === owner)) return;
+        await writeAll({
+          ...document,
+          leases: document.leases.filter((entry) => entry.owner !== owner),
+        });
+      }),
+  };
+};
@@ -0,0 +1,220 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  retentionCutoff,
+  type DeliveryAttempt,
+  type DeliveryLog,
+  type DispatchCheckpoint,
+  type RetryEntry,
+  type RunLease,
+} from "@/lib/delivery-log";
+
+type AttemptRow = {
+  id: string;
+  email: string;
+  send_on: string;
+  attempt: number;
+  status: string;
+  error: string | null;
+  message_id: string | null;
+  attempted_at: string;
+};
+
+type RetryRow = {
+  email: string;
+  send_on: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string;
+};
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS delivery_attempts (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    send_on TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    message_id TEXT,
+    attempted_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS delivery_attempts_email
+    ON delivery_attempts (email, attempted_at)`,
+  `CREATE TABLE IF NOT EXISTS delivery_retries (
+    email TEXT PRIMARY KEY,
+    send_on TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at TEXT NOT NULL,
+    last_error TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS delivery_checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    started_at TEXT NOT NULL,
+    remaining TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS delivery_leases (
+    run TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  )`,
+];
+
+const rowToAttempt = (row: AttemptRow): DeliveryAttempt => ({
+  id: row.id,
+  email: row.email,
+  sendOn: row.send_on,
+  attempt: row.attempt,
+  status: row.status as DeliveryAttempt["status"],
+  error: row.error ?? undefined,
+  messageId: row.message_id ?? undefined,
+  attemptedAt: row.attempted_at,
+});
+
+const rowToRetry = (row: RetryRow): RetryEntry => ({
+  email: row.email,
+  sendOn: row.send_on,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+});
+
+export const createSqliteDeliveryLog = (dbPath: string): DeliveryLog => {
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  SCHEMA.forEach((statement) => db.exec(statement));
+
+  const insertAttempt = db.prepare<AttemptRow>(
+    `INSERT INTO delivery_attempts
+       (id, email, send_on, attempt, status, error, message_id, attempted_at)
+     VALUES
+       (@id, @email, @send_on, @attempt, @status, @error, @message_id, @attempted_at)`
+  );
+  const pruneAttempts = db.prepare<[string]>(
+    "DELETE FROM delivery_attempts WHERE attempted_at < ?"
+  );
+  const selectAttempts = db.prepare<[number], AttemptRow>(
+    "SELECT * FROM delivery_attempts ORDER BY attempted_at DESC LIMIT ?"
+  );
+  const selectAttemptsByEmail = db.prepare<[string, number], AttemptRow>(
+    "SELECT * FROM delivery_attempts WHERE email = ? ORDER BY attempted_at DESC LIMIT ?"
+  );
+  const selectSent = db.prepare<[string], { email: string; send_on: string }>(
+    "SELECT email, send_on FROM delivery_attempts WHERE status = 'sent' AND attempted_at >= ?"
+  );
+  const selectRetries = db.prepare<[], RetryRow>(
+    "SELECT * FROM delivery_retries ORDER BY next_attempt_at"
+  );
+  const upsertRetry = db.prepare<RetryRow>(
+    `INSERT OR REPLACE INTO delivery_retries
+       (email, send_on, attempts, next_attempt_at, last_error)
+     VALUES (@email, @send_on, @attempts, @next_attempt_at, @last_error)`
+  );
+  const deleteRetry = db.prepare<[string]>(
+    "DELETE FROM delivery_retries WHERE email = ?"
+  );
+
+  const selectCheckpoint = db.prepare<
+    [],
+    { started_at: string; remaining: string }
+  >("SELECT started_at, remaining FROM delivery_checkpoint WHERE id = 1");
+  const upsertCheckpoint = db.prepare<[string, string]>(
+    `INSERT OR REPLACE INTO delivery_checkpoint (id, started_at, remaining)
+     VALUES (1, ?, ?)`
+  );
+  const deleteCheckpoint = db.prepare("DELETE FROM delivery_checkpoint");
+
+  const selectLease = db.prepare<[string], { owner: string; expires_at: string }>(
+    "SELECT owner, expires_at FROM delivery_leases WHERE run = ?"
+  );
+  const upsertLease = db.prepare<[string, string, string]>(
+    "INSERT OR REPLACE INTO delivery_leases (run, owner, expires_at) VALUES (?, ?, ?)"
+  );
+  const deleteLease = db.prepare<[string]>(
+    "DELETE FROM delivery_leases WHERE owner = ?"
+  );
+
+  const recordAttempts = db.transaction((attempts: DeliveryAttempt[]) => {
+    attempts.forEach((entry) =>
+      insertAttempt.run({
+        id: entry.id,
+        email: entry.email,
+        send_on: entry.sendOn,
+        attempt: entry.attempt,
+        status: entry.status,
+        error: entry.error ?? null,
+        message_id: entry.messageId ?? null,
+        attempted_at: entry.attemptedAt,
+      })
+    );
+    pruneAttempts.run(retentionCutoff());
+  });
+
+  const saveRetries = db.transaction((entries: RetryEntry[]) => {
+    entries.forEach((entry) =>
+      upsertRetry.run({
+        email: entry.email,
+        send_on: entry.sendOn,
+        attempts: entry.attempts,
+        next_attempt_at: entry.nextAttemptAt,
+        last_error: entry.lastError,
+      })
+    );
+  });
+
+  const removeRetries = db.transaction((emails: string[]) => {
+    emails.forEach((email) => deleteRetry.run(email));
+  });
+
+  const takeLease = db.transaction((lease: RunLease, now: string) => {
+    const held = selectLease.get(lease.run);
+    if (held && held.owner !== lease.owner && held.expires_at > now) return false;
+    upsertLease.run(lease.run, lease.owner, lease.expiresAt);
+    return true;
+  });
+
+  return {
+    record: async (attempts) => {
+      if (attempts.length > 0) recordAttempts.immediate(attempts);
+    },
+
+    listAttempts: async ({ email, limit = 100 } = {}) =>
+      (email
+        ? selectAttemptsByEmail.all(email, limit)
+        : selectAttempts.all(limit)
+      ).map(rowToAttempt),
+
+    listSent: async (since) =>
+      selectSent.all(since).map((row) => ({ email: row.email, sendOn: row.send_on })),
+
+    listRetries: async () => selectRetries.all().map(rowToRetry),
+
+    scheduleRetries: async (entries) => saveRetries.immediate(entries),
+
+    clearRetries: async (emails) => removeRetries.immediate(emails),
+
+    getCheckpoint: async (): Promise<DispatchCheckpoint | null> => {
+      const row = selectCheckpoint.get();
+      return row
+        ? { startedAt: row.started_at, remaining: JSON.parse(row.remaining) as string[] }
+        : null;
+    },
+
+    saveCheckpoint: async (checkpoint) => {
+      if (checkpoint) {
+        upsertCheckpoint.run(checkpoint.startedAt, JSON.stringify(checkpoint.remaining));
+      } else {
+        deleteCheckpoint.run();
+      }
+    },
+
+    claimRun: async (lease, now) => takeLease.immediate(lease, now),
+
+    releaseRun: async (owner) => {
+      deleteLease.run(owner);
+    },
+  };
+};
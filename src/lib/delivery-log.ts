@@ -0,0 +1,104 @@
+import path from "path";
+import { resolveStoreKind } from "@/lib/subscriber-store";
+
+export type DeliveryStatus = "sent" | "failed";
+
+export type DeliveryAttempt = {
+  id: string;
+  email: string;
+  // Subscriber-local date the morning email was for.
+  sendOn: string;
+  // 1 for the scheduled send, higher for retries.
+  attempt: number;
+  status: DeliveryStatus;
+  error?: string;
+  messageId?: string;
+  attemptedAt: string;
+};
+
+export type RetryEntry = {
+  email: string;
+  sendOn: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string;
+};
+
+// Where an interrupted daily run left off, so the next invocation can finish it.
+export type DispatchCheckpoint = {
+  startedAt: string;
+  remaining: string[];
+};
+
+// Each kind of run has its own lease. Cron and the GitHub workflow can fire
+// together; whoever claims the lease runs and the other stands down.
+export type RunName = "daily" | "alerts";
+
+export type RunLease = {
+  run: RunName;
+  owner: string;
+  expiresAt: string;
+};
+
+export interface DeliveryLog {
+  record(attempts: DeliveryAttempt[]): Promise<void>;
+  // Newest first.
+  listAttempts(options?: { email?: string; limit?: number }): Promise<DeliveryAttempt[]>;
+  // Successful sends recorded at or after `since`.
+  listSent(since: string): Promise<Array<{ email: string; sendOn: string }>>;
+  listRetries(): Promise<RetryEntry[]>;
+  // Replaces any queued retry for the same email.
+  scheduleRetries(entries: RetryEntry[]): Promise<void>;
+  clearRetries(emails: string[]): Promise<void>;
+  getCheckpoint(): Promise<DispatchCheckpoint | null>;
+  // Passing null clears the checkpoint once a run completes.
+  saveCheckpoint(checkpoint: DispatchCheckpoint | null): Promise<void>;
+  // Atomic: succeeds when the run has no lease, it has expired, or it is ours.
+  claimRun(lease: RunLease, now: string): Promise<boolean>;
+  // Only the owner can release; a lease that has passed to another run stays.
+  releaseRun(owner: string): Promise<void>;
+}
+
+// A scheduled send plus three retries, 15, 30 and 60 minutes apart.
+export const MAX_DELIVERY_ATTEMPTS = 4;
+const RETRY_BASE_MS = 15 * 60 * 1000;
+
+export const DELIVERY_LOG_RETENTION_DAYS = 30;
+
+export const nextRetryAt = (attempts: number, now: Date) =>
+  new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString();
+
+export const retentionCutoff = (now = new Date()) =>
+  new Date(
+    now.getTime() - DELIVERY_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+let logPromise: Promise<DeliveryLog> | null = null;
+
+// Follows the subscriber store so a deployment keeps all its state in one kind
+// of backend.
+const createLog = async (): Promise<DeliveryLog> => {
+  if (resolveStoreKind() === "sqlite") {
+    const { createSqliteDeliveryLog } = await import("@/lib/delivery-log-sqlite");
+    return createSqliteDeliveryLog(
+      process.env.DELIVERY_LOG_PATH ?? path.join(DATA_DIR, "delivery-log.db")
+    );
+  }
+
+  const { createJsonDeliveryLog } = await import("@/lib/delivery-log-json");
+  return createJsonDeliveryLog(
+    process.env.DELIVERY_LOG_PATH ?? path.join(DATA_DIR, "delivery-log.json")
+  );
+};
+
+export const getDeliveryLog = () => {
+  if (!logPromise) {
+    logPromise = createLog().catch((error) => {
+      logPromise = null;
+      throw error;
+    });
+  }
+  return logPromise;
+};
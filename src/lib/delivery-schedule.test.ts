@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { listDueAtNextRun, nextDeliveryRun } from "@/lib/delivery-schedule";
+import type { Subscriber } from "@/lib/subscribers";
+
+const subscriber = (overrides: Partial<Subscriber>): Subscriber => ({
+  email: "reader@example.com",
+  units: "imperial",
+  timezone: "America/New_York",
+  minAlertSeverity: "Severe",
+  token: "fixture-token",
+  subscribedAt: "2025-11-02T14:00:00.000Z",
+  sentAlertIds: [],
+  status: "active",
+  deliveryHour: 8,
+  deliveryDays: [],
+  paused: false,
+  ...overrides,
+});
+
+// 07:55 in New York on Wednesday 14 January 2026, when prewarming runs.
+const PREWARM_AT = new Date("2026-01-14T12:55:00Z");
+
+describe("nextDeliveryRun", () => {
+  it("is the top of the following UTC hour", () => {
+    expect(nextDeliveryRun(PREWARM_AT).toISOString()).toBe("2026-01-14T13:00:00.000Z");
+    expect(nextDeliveryRun(new Date("2026-01-14T13:00:00Z")).toISOString()).toBe(
+      "2026-01-14T14:00:00.000Z"
+    );
+  });
+});
+
+describe("listDueAtNextRun", () => {
+  it("keeps only subscribers the next send will reach", () => {
+    const due = subscriber({ email: "due@example.com" });
+    const subscribers = [
+      due,
+      subscriber({ email: "later@example.com", deliveryHour: 11 }),
+      subscriber({ email: "sent@example.com", lastSentOn: "2026-01-14" }),
+      subscriber({ email: "paused@example.com", paused: true }),
+      subscriber({ email: "pending@example.com", status: "pending" }),
+      subscriber({ email: "weekends@example.com", deliveryDays: [0, 6] }),
+      subscriber({ email: "chicago@example.com", timezone: "America/Chicago" }),
+    ];
+
+    expect(listDueAtNextRun(subscribers, PREWARM_AT)).toEqual([due]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { Subscriber } from "@/lib/subscribers";
+
+const FALLBACK_TIMEZONE = "America/New_York";
+
+// The scheduler ticks hourly, but cron runners can start late; a subscriber is
+// still due for this many hours after their preferred hour.
+const DELIVERY_GRACE_HOURS = 2;
+
+export const ALL_DELIVERY_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const resolveTimeZone = (timeZone?: string) => {
+  if (!timeZone) return FALLBACK_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone }).format(new Date());
+    return timeZone;
+  } catch {
+    return FALLBACK_TIMEZONE;
+  }
+};
+
+export const getLocalDate = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: resolveTimeZone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+export const getLocalHour = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const hourPart = parts.find((part) => part.type === "hour")?.value ?? "0";
+  return Number.parseInt(hourPart, 10);
+};
+
+export const getLocalWeekday = (date: Date, timeZone: string) => {
+  const weekday = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    weekday: "short",
+  }).format(date);
+  return WEEKDAYS.indexOf(weekday);
+};
+
+export const isDeliveryDay = (value: unknown): value is number =>
+  typeof value === "number" && ALL_DELIVERY_DAYS.includes(value);
+
+export const isDueNow = (subscriber: Subscriber, now: Date) => {
+  const localDate = getLocalDate(now, subscriber.timezone);
+  if (subscriber.lastSentOn === localDate) return false;
+
+  const days =
+    subscriber.deliveryDays.length > 0
+      ? subscriber.deliveryDays
+      : ALL_DELIVERY_DAYS;
+  if (!days.includes(getLocalWeekday(now, subscriber.timezone))) return false;
+
+  const hoursLate = getLocalHour(now, subscriber.timezone) - subscriber.deliveryHour;
+  return hoursLate >= 0 && hoursLate < DELIVERY_GRACE_HOURS;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The hourly send fires at the top of each UTC hour.
+export const nextDeliveryRun = (now: Date) =>
+  new Date((Math.floor(now.getTime() / HOUR_MS) + 1) * HOUR_MS);
+
+// Who the next hourly send will reach, so prewarming can skip everyone else.
+export const listDueAtNextRun = (subscribers: Subscriber[], now: Date) => {
+  const run = nextDeliveryRun(now);
+  return subscribers.filter(
+    (subscriber) =>
+      subscriber.status === "active" && !subscriber.paused && isDueNow(subscriber, run)
+  );
+};
@@ -0,0 +1,94 @@
+import { EmailRateLimitError } from "@/lib/email";
+
+export type DispatchOptions = {
+  // Sends in flight at once.
+  concurrency: number;
+  // Sends started per second across all workers; 0 disables the limit.
+  perSecond: number;
+  // No new send starts after this many milliseconds, leaving the rest for
+  // the next invocation.
+  budgetMs: number;
+};
+
+export type DispatchResult<T, R> = {
+  results: R[];
+  // Items that were not sent before the budget ran out, in their original order.
+  remaining: T[];
+};
+
+const DEFAULT_CONCURRENCY = 4;
+// Resend's default account limit.
+const DEFAULT_PER_SECOND = 2;
+const DEFAULT_BUDGET_MS = 50_000;
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+const readNumber = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= min
+    ? parsed
+    : fallback;
+};
+
+export const resolveDispatchOptions = (): DispatchOptions => ({
+  concurrency: Math.floor(
+    readNumber(process.env.EMAIL_CONCURRENCY, DEFAULT_CONCURRENCY, 1)
+  ),
+  perSecond: readNumber(process.env.EMAIL_RATE_PER_SECOND, DEFAULT_PER_SECOND, 0),
+  budgetMs: readNumber(process.env.EMAIL_DISPATCH_BUDGET_MS, DEFAULT_BUDGET_MS, 0),
+});
+
+// Runs `task` for each item with bounded concurrency and an evenly spaced start
+// rate. An EmailRateLimitError pauses every worker for the provider's
+// Retry-After and puts the item back at the front of the queue; any other
+// error rejects the whole dispatch, so tasks should handle their own failures.
+export const dispatch = async <T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  { concurrency, perSecond, budgetMs }: DispatchOptions
+): Promise<DispatchResult<T, R>> => {
+  const deadline = Date.now() + budgetMs;
+  const interval = perSecond > 0 ? 1000 / perSecond : 0;
+  const queue = [...items];
+  const results: R[] = [];
+  let nextStartAt = Date.now();
+  let pausedUntil = 0;
+
+  // Waits for the next free start slot; false once the budget is spent.
+  const reserveSlot = async () => {
+    for (;;) {
+      const slot = Math.max(nextStartAt, pausedUntil, Date.now());
+      if (slot >= deadline) return false;
+      nextStartAt = slot + interval;
+      await sleep(slot - Date.now());
+      // A rate limit may have arrived while this worker was waiting.
+      if (Date.now() >= pausedUntil) return true;
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      if (!(await reserveSlot())) return;
+      if (queue.length === 0) return;
+      const item = queue.shift() as T;
+      try {
+        results.push(await task(item));
+      } catch (error) {
+        if (!(error instanceof EmailRateLimitError)) throw error;
+        pausedUntil = Math.max(pausedUntil, Date.now() + error.retryAfterMs);
+        queue.unshift(item);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+
+  const remainingSet = new Set(queue);
+  return {
+    results,
+    remaining: items.filter((item) => remainingSet.has(item)),
+  };
+};
@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import type { WeatherPayload } from "@/lib/nws";
+import {
+  renderAlertEmail,
+  renderConfirmEmail,
+  renderMorningEmail,
+} from "@/lib/email-template";
+
+const buildWeather = (): WeatherPayload => ({
+  provider: "nws",
+  location: { name: "Brooklyn, NY", lat: 40.6782, lon: -73.9442 },
+  current: {
+    temperatureF: 41,
+    feelsLikeF: 35,
+    condition: "Light Rain",
+    humidity: 88,
+    windSpeedMph: 14,
+    windGustMph: 22,
+    windDirection: "NE",
+    dewPointF: 38,
+    pressureInHg: 29.92,
+    visibilityMiles: 6,
+    observedAt: "2026-03-02T11:51:00Z",
+    source: "observed",
+    station: {
+      id: "KNYC",
+      name: "New York City, Central Park",
+      distanceMiles: 6.2,
+      ageMinutes: 9,
+    },
+  },
+  daily: Array.from({ length: 7 }, (_, index) => ({
+    date: `2026-03-0${index + 2}T11:00:00-05:00`,
+    name: index === 0 ? "Today" : `Day ${index + 1}`,
+    highF: 44 + index,
+    lowF: 33 + index,
+    summary: index === 0 ? "Rain likely before noon" : "Partly Sunny",
+    icon: "https://api.weather.gov/icons/land/day/rain",
+    precipitationIn: null,
+    snowfallIn: null,
+  })),
+  hourly: Array.from({ length: 24 }, (_, index) => ({
+    time: new Date(Date.UTC(2026, 2, 2, 12 + index)).toISOString(),
+    temperatureF: 40 + (index % 6),
+    summary: "Light Rain",
+    icon: "https://api.weather.gov/icons/land/day/rain",
+    precipChance: index < 4 ? 70 - index * 10 : null,
+    humidity: 85,
+    feelsLikeF: null,
+    windChillF: null,
+    skyCover: null,
+    windGustMph: null,
+    thunderChance: null,
+    precipitationIn: null,
+    snowfallIn: null,
+    iceIn: null,
+  })),
+  alerts: [],
+  updatedAt: {
+    forecast: "2026-03-02T10:00:00Z",
+    hourly: "2026-03-02T10:00:00Z",
+    grid: null,
+  },
+});
+
+const baseInput = {
+  locationName: "Brooklyn, NY",
+  timeZone: "America/New_York",
+  unsubscribeUrl: "https://skyview.test/api/unsubscribe?token=abc",
+  preferencesUrl: "https://skyview.test/preferences?token=abc",
+};
+
+describe("renderMorningEmail", () => {
+  it("renders every section in fahrenheit", () => {
+    const email = renderMorningEmail({
+      ...baseInput,
+      weather: buildWeather(),
+      units: "imperial",
+    });
+
+    expect(email.subject).toBe("Your SkyView morning forecast");
+    expect(email.html).toMatchSnapshot();
+    expect(email.text).toMatchSnapshot();
+  });
+
+  it("converts every measure to metric", () => {
+    const email = renderMorningEmail({
+      ...baseInput,
+      weather: buildWeather(),
+      units: "metric",
+    });
+
+    expect(email.text).toContain("5°C, Light Rain (feels like 2°C)");
+    expect(email.text).toContain("Wind NE 23 km/h");
+    expect(email.html).not.toContain("°F");
+    expect(email.text).not.toContain("°F");
+  });
+
+  it("limits the hourly strip to 12 hours and the outlook to 5 days", () => {
+    const { text } = renderMorningEmail({
+      ...baseInput,
+      weather: buildWeather(),
+      units: "imperial",
+    });
+
+    expect(text.match(/precip$/gm)).toHaveLength(12);
+    expect(text).toContain("Fri  48°F / 37°F  Partly Sunny");
+    expect(text).not.toContain("Sat  49°F");
+  });
+
+  it("omits empty sections", () => {
+    const weather = { ...buildWeather(), hourly: [], daily: [] };
+    const { html, text } = renderMorningEmail({ ...baseInput, weather, units: "imperial" });
+
+    expect(html).not.toContain("Next 12 hours");
+    expect(html).not.toContain("5-day outlook");
+    expect(text).not.toContain("NEXT 12 HOURS");
+    expect(text).toContain("High — · Low —");
+  });
+
+  it("includes the shared outfit suggestion", () => {
+    const { text } = renderMorningEmail({
+      ...baseInput,
+      weather: buildWeather(),
+      units: "imperial",
+    });
+
+    expect(text).toContain("WHAT TO WEAR\nCold Front · Warm but sleek");
+  });
+
+  it("mentions expected snow and rain totals from the grid data", () => {
+    const weather = buildWeather();
+    weather.daily[0] = { ...weather.daily[0], precipitationIn: 0.4, snowfallIn: 2.8 };
+    weather.daily[1] = { ...weather.daily[1], precipitationIn: 0.62, snowfallIn: 0 };
+    const { html, text } = renderMorningEmail({ ...baseInput, weather, units: "imperial" });
+
+    expect(text).toContain("Expect 2–4 in of snow today");
+    expect(html).toContain("Expect 2–4 in of snow today");
+    expect(text).toContain("Partly Sunny · 0.6 in of rain");
+  });
+});
+
+describe("hostile input", () => {
+  const hostileName = '<img src=x onerror="alert(1)">\r\nBcc: victim@example.com';
+
+  it("escapes the location name in the morning email", () => {
+    const email = renderMorningEmail({
+      ...baseInput,
+      locationName: hostileName,
+      weather: buildWeather(),
+      units: "imperial",
+    });
+
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain(
+      "&lt;img src=x onerror=&quot;alert(1)&quot;&gt; Bcc: victim@example.com — Morning Forecast"
+    );
+    expect(email.text.split("\n")[0]).toBe(
+      '<img src=x onerror="alert(1)"> Bcc: victim@example.com — Morning Forecast'
+    );
+  });
+
+  it("escapes NWS-provided text in the morning email", () => {
+    const weather = buildWeather();
+    weather.current.condition = "</p><a href='https://evil.test'>Rain</a>";
+    weather.daily[1].summary = "<b>Sunny</b>";
+    const { html } = renderMorningEmail({ ...baseInput, weather, units: "imperial" });
+
+    expect(html).not.toContain("evil.test'>");
+    expect(html).not.toContain("<b>Sunny");
+    expect(html).toContain("&lt;b&gt;Sunny&lt;/b&gt;");
+  });
+
+  it("neutralizes non-http links", () => {
+    const { html } = renderMorningEmail({
+      ...baseInput,
+      unsubscribeUrl: "javascript:alert(1)",
+      weather: buildWeather(),
+      units: "imperial",
+    });
+
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain('<a href="#"');
+  });
+
+  it("escapes alert fields and keeps the subject on one line", () => {
+    const email = renderAlertEmail({
+      ...baseInput,
+      locationName: hostileName,
+      alerts: [
+        {
+          id: "urn:oid:1",
+          event: "Tornado Warning",
+          severity: "Extreme",
+          urgency: "Immediate",
+          headline: "<script>steal()</script>",
+          description: null,
+          instruction: "Take cover <now>",
+          onset: "2026-03-02T12:00:00Z",
+          expires: "2026-03-02T13:00:00Z",
+          areaDesc: "Kings & Queens",
+        },
+      ],
+    });
+
+    expect(email.subject).not.toMatch(/[\r\n]/);
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).toContain("Take cover &lt;now&gt;");
+    expect(email.html).toContain("Kings &amp; Queens · Until Mon 8:00 AM");
+  });
+
+  it("escapes the confirmation email", () => {
+    const email = renderConfirmEmail({
+      locationName: hostileName,
+      confirmUrl: "https://skyview.test/api/confirm?token=a&b=<c>",
+    });
+
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain(
+      'href="https://skyview.test/api/confirm?token=a&amp;b=&lt;c&gt;"'
+    );
+  });
+});
@@ -0,0 +1,360 @@
+import type { WeatherAlert, WeatherPayload } from "@/lib/nws";
+import { getOutfitLooks } from "@/lib/outfits";
+import { describeAccumulation } from "@/lib/accumulation";
+import { html, safeUrl, singleLine, type SafeHtml } from "@/lib/html";
+import {
+  formatSpeed,
+  formatTemperature,
+  resolveUnits,
+  type Units,
+  type UnitSystem,
+} from "@/lib/units";
+
+export type MorningEmailInput = {
+  weather: WeatherPayload;
+  locationName: string;
+  units: UnitSystem;
+  timeZone: string;
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+};
+
+export type AlertEmailInput = {
+  alerts: WeatherAlert[];
+  locationName: string;
+  timeZone: string;
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+};
+
+export type ConfirmEmailInput = {
+  locationName: string;
+  confirmUrl: string;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const HOURLY_HOURS = 12;
+const OUTLOOK_DAYS = 5;
+
+const COLORS = {
+  ink: "#0f172a",
+  muted: "#64748b",
+  border: "#e2e8f0",
+  panel: "#f8fafc",
+  rain: "#2563eb",
+  alert: "#dc2626",
+  alertPanel: "#fef2f2",
+};
+
+const formatHour = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric" }).format(
+    new Date(iso)
+  );
+
+const formatWeekday = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short" }).format(
+    new Date(iso)
+  );
+
+const formatAlertTime = (iso: string | null, timeZone: string) => {
+  if (!iso) return null;
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(iso));
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value)}%`;
+
+const formatWind = (current: WeatherPayload["current"], units: Units) => {
+  if (current.windSpeedMph === null) return "—";
+  return [current.windDirection, formatSpeed(current.windSpeedMph, units)]
+    .filter(Boolean)
+    .join(" ");
+};
+
+const section = (title: string, body: SafeHtml) => html`
+      <tr>
+        <td style="padding:20px 24px 0;">
+          <p style="margin:0 0 10px; font-size:12px; letter-spacing:0.08em; text-transform:uppercase; color:${COLORS.muted};">${title}</p>
+          ${body}
+        </td>
+      </tr>`;
+
+const renderCurrentHtml = ({ weather }: MorningEmailInput, units: Units) => {
+  const { current } = weather;
+  const today = weather.daily[0];
+  const summary = today?.summary ?? current.condition;
+  const accumulation = today ? describeAccumulation(today, units) : null;
+  return section(
+    "Right now",
+    html`<p style="margin:0; font-size:40px; font-weight:300; color:${COLORS.ink};">${formatTemperature(current.temperatureF, units)}</p>
+          <p style="margin:4px 0 0; font-size:15px; color:${COLORS.ink};">${current.condition} · Feels like ${formatTemperature(current.feelsLikeF, units)}</p>
+          <p style="margin:12px 0 0; font-size:14px; color:${COLORS.ink};">${summary}</p>${
+            accumulation
+              ? html`
+          <p style="margin:4px 0 0; font-size:14px; font-weight:600; color:${COLORS.rain};">Expect ${accumulation} today</p>`
+              : null
+          }
+          <p style="margin:4px 0 0; font-size:14px; color:${COLORS.muted};">High ${formatTemperature(today?.highF ?? null, units)} · Low ${formatTemperature(today?.lowF ?? null, units)} · Wind ${formatWind(current, units)} · Humidity ${formatPercent(current.humidity)}</p>`
+  );
+};
+
+const renderHourlyHtml = (
+  { weather, timeZone }: MorningEmailInput,
+  units: Units
+) => {
+  const hours = weather.hourly.slice(0, HOURLY_HOURS);
+  if (hours.length === 0) return null;
+  const cells = hours.map(
+    (hour) => html`
+              <td align="center" style="padding:8px 4px; border:1px solid ${COLORS.border}; background:${COLORS.panel}; font-size:12px; color:${COLORS.ink};">
+                <div style="color:${COLORS.muted};">${formatHour(hour.time, timeZone)}</div>
+                <div style="font-size:14px; font-weight:600; margin:4px 0;">${formatTemperature(hour.temperatureF, units)}</div>
+                <div style="color:${COLORS.rain};">${formatPercent(hour.precipChance)}</div>
+              </td>`
+  );
+  return section(
+    "Next 12 hours",
+    html`<table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="border-collapse:collapse; table-layout:fixed;">
+            <tr>${cells}
+            </tr>
+          </table>`
+  );
+};
+
+const renderOutlookHtml = (
+  { weather, timeZone }: MorningEmailInput,
+  units: Units
+) => {
+  const days = weather.daily.slice(0, OUTLOOK_DAYS);
+  if (days.length === 0) return null;
+  const rows = days.map((day) => {
+    const accumulation = describeAccumulation(day, units);
+    return html`
+            <tr>
+              <td style="padding:6px 0; width:48px; font-weight:600; color:${COLORS.ink};">${formatWeekday(day.date, timeZone)}</td>
+              <td style="padding:6px 8px; color:${COLORS.ink};">${day.summary}${
+                accumulation
+                  ? html` <span style="color:${COLORS.rain};">· ${accumulation}</span>`
+                  : null
+              }</td>
+              <td align="right" style="padding:6px 0; white-space:nowrap; color:${COLORS.ink};">${formatTemperature(day.highF, units)} <span style="color:${COLORS.muted};">/ ${formatTemperature(day.lowF, units)}</span></td>
+            </tr>`;
+  });
+  return section(
+    "5-day outlook",
+    html`<table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="border-collapse:collapse; font-size:14px;">${rows}
+          </table>`
+  );
+};
+
+const renderOutfitHtml = ({ weather }: MorningEmailInput) => {
+  const [look] = getOutfitLooks(weather.current);
+  if (!look) return null;
+  return section(
+    "What to wear",
+    html`<p style="margin:0; font-size:15px; font-weight:600; color:${COLORS.ink};">${look.name} <span style="font-weight:400; color:${COLORS.muted};">· ${look.vibe}</span></p>
+          <p style="margin:4px 0 0; font-size:14px; color:${COLORS.ink};">${look.layers.join(" · ")}</p>
+          <p style="margin:4px 0 0; font-size:13px; color:${COLORS.muted};">Don’t forget: ${look.extras.join(", ")}</p>`
+  );
+};
+
+const renderLayout = (
+  title: string,
+  body: SafeHtml,
+  footer: SafeHtml
+) => html`
+<div style="margin:0; padding:24px 0; background:#f1f5f9; font-family: Inter, Arial, sans-serif; color:${COLORS.ink};">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width:600px; margin:0 auto; background:#ffffff; border-radius:16px; border-collapse:separate;">
+    <tr>
+      <td style="padding:24px 24px 0;">
+        <h2 style="margin:0;">${title}</h2>
+      </td>
+    </tr>${body}
+    <tr>
+      <td style="padding:24px; font-size:12px; color:${COLORS.muted};">
+        ${footer}
+      </td>
+    </tr>
+  </table>
+</div>
+`;
+
+const renderFooterHtml = (links: Array<{ label: string; url: string }>) =>
+  html`SkyView Weather${links.map(
+    (link) =>
+      html` · <a href="${safeUrl(link.url)}" style="color:${COLORS.muted};">${link.label}</a>`
+  )}`;
+
+const renderHtml = (input: MorningEmailInput, units: Units) =>
+  renderLayout(
+    `${singleLine(input.locationName)} — Morning Forecast`,
+    html`${renderCurrentHtml(input, units)}${renderHourlyHtml(input, units)}${renderOutlookHtml(input, units)}${renderOutfitHtml(input)}`,
+    renderFooterHtml([
+      { label: "Manage preferences", url: input.preferencesUrl },
+      { label: "Unsubscribe", url: input.unsubscribeUrl },
+    ])
+  ).toString();
+
+const renderText = (input: MorningEmailInput, units: Units) => {
+  const { weather, timeZone } = input;
+  const { current } = weather;
+  const today = weather.daily[0];
+  const todayAccumulation = today ? describeAccumulation(today, units) : null;
+  const lines = [
+    `${singleLine(input.locationName)} — Morning Forecast`,
+    "",
+    "RIGHT NOW",
+    `${formatTemperature(current.temperatureF, units)}, ${current.condition} (feels like ${formatTemperature(current.feelsLikeF, units)})`,
+    today?.summary ?? current.condition,
+    ...(todayAccumulation ? [`Expect ${todayAccumulation} today`] : []),
+    `High ${formatTemperature(today?.highF ?? null, units)} · Low ${formatTemperature(today?.lowF ?? null, units)} · Wind ${formatWind(current, units)} · Humidity ${formatPercent(current.humidity)}`,
+  ];
+
+  const hours = weather.hourly.slice(0, HOURLY_HOURS);
+  if (hours.length > 0) {
+    lines.push("", "NEXT 12 HOURS");
+    hours.forEach((hour) => {
+      lines.push(
+        `${formatHour(hour.time, timeZone).padEnd(6)} ${formatTemperature(hour.temperatureF, units).padStart(5)}  ${formatPercent(hour.precipChance)} precip`
+      );
+    });
+  }
+
+  const days = weather.daily.slice(0, OUTLOOK_DAYS);
+  if (days.length > 0) {
+    lines.push("", "5-DAY OUTLOOK");
+    days.forEach((day) => {
+      lines.push(
+        [
+          `${formatWeekday(day.date, timeZone)}  ${formatTemperature(day.highF, units)} / ${formatTemperature(day.lowF, units)}  ${day.summary}`,
+          describeAccumulation(day, units),
+        ]
+          .filter(Boolean)
+          .join(" · ")
+      );
+    });
+  }
+
+  const [look] = getOutfitLooks(current);
+  if (look) {
+    lines.push(
+      "",
+      "WHAT TO WEAR",
+      `${look.name} · ${look.vibe}`,
+      look.layers.join(" · "),
+      `Don’t forget: ${look.extras.join(", ")}`
+    );
+  }
+
+  lines.push(
+    "",
+    "—",
+    "SkyView Weather",
+    `Manage preferences: ${input.preferencesUrl}`,
+    `Unsubscribe: ${input.unsubscribeUrl}`
+  );
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const renderMorningEmail = (input: MorningEmailInput): RenderedEmail => {
+  const units = resolveUnits(input.units);
+  return {
+    subject: "Your SkyView morning forecast",
+    html: renderHtml(input, units),
+    text: renderText(input, units),
+  };
+};
+
+const renderAlertHtml = (alert: WeatherAlert, timeZone: string) => {
+  const expires = formatAlertTime(alert.expires, timeZone);
+  return html`
+      <tr>
+        <td style="padding:16px 24px 0;">
+          <div style="padding:12px 16px; border-left:4px solid ${COLORS.alert}; background:${COLORS.alertPanel};">
+            <p style="margin:0 0 4px; font-weight:600;">${alert.event} · ${alert.severity}</p>
+            <p style="margin:0 0 4px; font-size:14px;">${alert.headline}</p>
+            ${alert.instruction ? html`<p style="margin:0 0 4px; font-size:14px;">${alert.instruction}</p>` : null}
+            <p style="margin:0; font-size:12px; color:${COLORS.muted};">${alert.areaDesc}${expires ? ` · Until ${expires}` : null}</p>
+          </div>
+        </td>
+      </tr>`;
+};
+
+const renderAlertText = (alert: WeatherAlert, timeZone: string) => {
+  const expires = formatAlertTime(alert.expires, timeZone);
+  return [
+    `${alert.event.toUpperCase()} · ${alert.severity}`,
+    alert.headline,
+    alert.instruction,
+    `${alert.areaDesc}${expires ? ` · Until ${expires}` : ""}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export const renderAlertEmail = (input: AlertEmailInput): RenderedEmail => {
+  const locationName = singleLine(input.locationName);
+  const [first, ...rest] = input.alerts;
+  const more = rest.length > 0 ? ` (+${rest.length} more)` : "";
+
+  const text = [
+    `${locationName} — Weather Alert`,
+    ...input.alerts.map((alert) => `\n${renderAlertText(alert, input.timeZone)}`),
+    "",
+    "—",
+    "SkyView Weather",
+    `Manage preferences: ${input.preferencesUrl}`,
+    `Unsubscribe: ${input.unsubscribeUrl}`,
+  ];
+
+  return {
+    subject: singleLine(`${first?.event ?? "Weather alert"} for ${locationName}${more}`),
+    html: renderLayout(
+      `${locationName} — Weather Alert`,
+      html`${input.alerts.map((alert) => renderAlertHtml(alert, input.timeZone))}`,
+      renderFooterHtml([
+        { label: "Manage preferences", url: input.preferencesUrl },
+        { label: "Unsubscribe", url: input.unsubscribeUrl },
+      ])
+    ).toString(),
+    text: `${text.join("\n")}\n`,
+  };
+};
+
+export const renderConfirmEmail = (input: ConfirmEmailInput): RenderedEmail => {
+  const locationName = singleLine(input.locationName);
+  return {
+    subject: "Confirm your SkyView morning forecast",
+    html: renderLayout(
+      "Confirm your SkyView briefing",
+      html`
+      <tr>
+        <td style="padding:16px 24px 0; font-size:15px;">
+          <p style="margin:0 0 12px;">Tap below to start getting the morning forecast for ${locationName}.</p>
+          <p style="margin:0;"><a href="${safeUrl(input.confirmUrl)}" style="color:${COLORS.rain}; font-weight:600;">Confirm subscription</a></p>
+        </td>
+      </tr>`,
+      html`If you didn’t sign up, ignore this email and you won’t hear from us again.`
+    ).toString(),
+    text: [
+      "Confirm your SkyView briefing",
+      "",
+      `Open this link to start getting the morning forecast for ${locationName}:`,
+      input.confirmUrl,
+      "",
+      "If you didn’t sign up, ignore this email and you won’t hear from us again.",
+      "",
+    ].join("\n"),
+  };
+};
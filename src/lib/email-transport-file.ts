@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { resolveFromAddress } from "@/lib/email";
+import type { EmailTransport } from "@/lib/email-transport";
+
+// Writes each message as an .eml file instead of sending it, for local
+// development and tests. Any mail client can open the output.
+export const createFileTransport = (outboxDir: string): EmailTransport => {
+  const composer = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    send: async ({ to, subject, html, text, replyTo, headers }) => {
+      const info = await composer.sendMail({
+        from: resolveFromAddress("SkyView <skyview@localhost>"),
+        to,
+        subject,
+        html,
+        text,
+        replyTo,
+        headers,
+      });
+
+      await fs.mkdir(outboxDir, { recursive: true });
+      const id = info.messageId.replace(/[<>]/g, "");
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${id.replace(/[^\w.-]/g, "_")}.eml`;
+      await fs.writeFile(path.join(outboxDir, fileName), info.message as Buffer);
+      return { id };
+    },
+  };
+};
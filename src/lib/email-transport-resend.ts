@@ -0,0 +1,48 @@
+import {
+  EmailRateLimitError,
+  parseRetryAfter,
+  resolveFromAddress,
+} from "@/lib/email";
+import type { EmailTransport } from "@/lib/email-transport";
+
+const RESEND_URL = "https://api.resend.com/emails";
+
+export const createResendTransport = (): EmailTransport => ({
+  send: async ({ to, subject, html, text, replyTo, headers }) => {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing RESEND_API_KEY");
+    }
+
+    const response = await fetch(RESEND_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: resolveFromAddress(),
+        to,
+        subject,
+        html,
+        text,
+        reply_to: replyTo,
+        headers,
+      }),
+    });
+
+    if (response.status === 429) {
+      throw new EmailRateLimitError(
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new Error(`Email send failed: ${message}`);
+    }
+
+    const data = (await response.json().catch(() => null)) as { id?: string } | null;
+    return { id: data?.id ?? null };
+  },
+});
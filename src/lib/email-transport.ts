@@ -0,0 +1,49 @@
+import path from "path";
+import type { EmailPayload, EmailResult } from "@/lib/email";
+
+export interface EmailTransport {
+  send(payload: EmailPayload): Promise<EmailResult>;
+}
+
+export type EmailTransportKind = "resend" | "smtp" | "file";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+export const resolveTransportKind = (): EmailTransportKind => {
+  const kind = process.env.EMAIL_TRANSPORT;
+  if (kind === "smtp" || kind === "file") return kind;
+  return "resend";
+};
+
+let transportPromise: Promise<EmailTransport> | null = null;
+
+const createTransport = async (): Promise<EmailTransport> => {
+  switch (resolveTransportKind()) {
+    case "smtp": {
+      const { createSmtpTransport } = await import("@/lib/email-transport-smtp");
+      return createSmtpTransport();
+    }
+    case "file": {
+      const { createFileTransport } = await import("@/lib/email-transport-file");
+      return createFileTransport(
+        process.env.EMAIL_OUTBOX_DIR ?? path.join(DATA_DIR, "outbox")
+      );
+    }
+    default: {
+      const { createResendTransport } = await import(
+        "@/lib/email-transport-resend"
+      );
+      return createResendTransport();
+    }
+  }
+};
+
+export const getEmailTransport = () => {
+  if (!transportPromise) {
+    transportPromise = createTransport().catch((error) => {
+      transportPromise = null;
+      throw error;
+    });
+  }
+  return transportPromise;
+};
@@ -1,35 +1,67 @@
-const RESEND_URL = "https://api.resend.com/emails";
+import { getEmailTransport } from "@/lib/email-transport";
 
 export type EmailPayload = {
   to: string;
   subject: string;
   html: string;
+  text?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
 };
 
-export const sendEmail = async ({ to, subject, html }: EmailPayload) => {
-  const apiKey = process.env.RESEND_API_KEY;
-  const from = process.env.RESEND_FROM;
+export type EmailResult = {
+  // Provider message ID, when the transport reports one.
+  id: string | null;
+};
 
-  if (!apiKey || !from) {
-    throw new Error("Missing RESEND_API_KEY or RESEND_FROM");
+// Thrown by transports when the provider asks us to slow down; the dispatcher
+// pauses for `retryAfterMs` and retries the same message.
+export class EmailRateLimitError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super(`Email provider rate limited; retry after ${retryAfterMs}ms`);
+    this.name = "EmailRateLimitError";
   }
+}
+
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (value: string | null, now = Date.now()) => {
+  if (!value) return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - now);
+};
+
+const HEADER_NAME = /^[!-9;-~]+$/;
 
-  const response = await fetch(RESEND_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from,
-      to,
-      subject,
-      html,
-    }),
+// Header names must be printable ASCII without ":" and values must stay on a
+// single line, otherwise a value could smuggle in extra headers.
+const assertSafeHeaders = (headers: Record<string, string>) => {
+  Object.entries(headers).forEach(([name, value]) => {
+    if (!HEADER_NAME.test(name) || /[\r\n]/.test(value)) {
+      throw new Error(`Invalid email header: ${name}`);
+    }
   });
+};
 
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(`Email send failed: ${message}`);
+// Transports that never reach a real inbox may pass a fallback; the others
+// require one to be configured.
+export const resolveFromAddress = (fallback?: string) => {
+  const from = process.env.EMAIL_FROM ?? process.env.RESEND_FROM ?? fallback;
+  if (!from) {
+    throw new Error("Missing EMAIL_FROM or RESEND_FROM");
   }
+  return from;
+};
+
+export const sendEmail = async (payload: EmailPayload): Promise<EmailResult> => {
+  if (payload.headers) assertSafeHeaders(payload.headers);
+  if (/[\r\n]/.test(payload.subject) || /[\r\n]/.test(payload.replyTo ?? "")) {
+    throw new Error("Email subject and reply-to must be a single line");
+  }
+
+  const transport = await getEmailTransport();
+  return transport.send(payload);
 };
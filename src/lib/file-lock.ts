@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Write then rename so readers never observe a half-written file.
+export const writeFileAtomic = async (filePath: string, contents: string) => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, contents);
+  await fs.rename(tempPath, filePath);
+};
+
+export const createFileMutex = (filePath: string) => {
+  const lockPath = `${filePath}.lock`;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const acquireLock = async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const startedAt = Date.now();
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, "wx");
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for ${lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  };
+
+  // Serializes work inside this process; the lock file covers other processes
+  // sharing the same data directory.
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      await acquireLock();
+      try {
+        return await task();
+      } finally {
+        await fs.rm(lockPath, { force: true });
+      }
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { exclusive };
+};
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { html, type SafeHtml } from "@/lib/html";
+
+// The small standalone pages that links in SkyView emails open.
+export const renderPage = (title: string, body: SafeHtml, status = 200) =>
+  new NextResponse(
+    html`<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${title} · SkyView Weather</title>
+  </head>
+  <body style="margin:0; min-height:100vh; display:flex; align-items:center; justify-content:center; background:#0f172a; color:#f8fafc; font-family: Inter, Arial, sans-serif;">
+    <main style="max-width:420px; padding:32px; border-radius:24px; background:rgba(255,255,255,0.08); border:1px solid rgba(255,255,255,0.15); text-align:center;">
+      <h1 style="margin:0 0 12px; font-size:24px;">${title}</h1>
+      ${body}
+    </main>
+  </body>
+</html>
+`.toString(),
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+
+export const wantsHtml = (request: NextRequest) =>
+  (request.headers.get("accept") ?? "").includes("text/html");
+
+// The token from the query string, or from a posted confirmation form.
+export const readToken = async (request: NextRequest) => {
+  const fromQuery = new URL(request.url).searchParams.get("token");
+  if (fromQuery) return fromQuery;
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    const token = (await request.formData()).get("token");
+    return typeof token === "string" ? token : null;
+  }
+  return null;
+};
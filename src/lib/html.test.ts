@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, html, safeUrl, SafeHtml, singleLine } from "@/lib/html";
+
+describe("escapeHtml", () => {
+  it("escapes every markup-significant character", () => {
+    expect(escapeHtml(`<a href="x" onclick='y'>&</a>`)).toBe(
+      "&lt;a href=&quot;x&quot; onclick=&#39;y&#39;&gt;&amp;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("html", () => {
+  it("escapes interpolated strings", () => {
+    const name = "<script>alert(1)</script>";
+    expect(html`<p>${name}</p>`.toString()).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"
+    );
+  });
+
+  it("keeps nested templates and flattens arrays", () => {
+    const items = ["a", "<b>"].map((item) => html`<li>${item}</li>`);
+    expect(html`<ul>${items}</ul>`.toString()).toBe(
+      "<ul><li>a</li><li>&lt;b&gt;</li></ul>"
+    );
+  });
+
+  it("drops null, undefined and false", () => {
+    expect(html`${null}${undefined}${false}${0}`.toString()).toBe("0");
+  });
+
+  it("cannot be broken out of an attribute", () => {
+    const value = `" onmouseover="alert(1)`;
+    expect(html`<a title="${value}">x</a>`.toString()).toBe(
+      '<a title="&quot; onmouseover=&quot;alert(1)">x</a>'
+    );
+  });
+
+  it("only trusts SafeHtml instances", () => {
+    const forged = { value: "<img src=x>" } as unknown as SafeHtml;
+    expect(html`${forged}`.toString()).toBe("[object Object]");
+  });
+});
+
+describe("safeUrl", () => {
+  it("allows http and https", () => {
+    expect(safeUrl("https://skyview.test/a?b=1")).toBe("https://skyview.test/a?b=1");
+    expect(safeUrl("http://localhost:3000/x")).toBe("http://localhost:3000/x");
+  });
+
+  it("neutralizes other schemes and garbage", () => {
+    expect(safeUrl("javascript:alert(1)")).toBe("#");
+    expect(safeUrl("data:text/html,<b>x</b>")).toBe("#");
+    expect(safeUrl("not a url")).toBe("#");
+  });
+});
+
+describe("singleLine", () => {
+  it("removes line breaks and control characters", () => {
+    expect(singleLine("Boston\r\nBcc: victim@example.com\u0007")).toBe(
+      "Boston Bcc: victim@example.com"
+    );
+  });
+});
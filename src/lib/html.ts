@@ -0,0 +1,61 @@
+const ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// Markup that has already been escaped or built by `html`; it is inserted
+// as-is when nested inside another template.
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+export type HtmlValue =
+  | SafeHtml
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | HtmlValue[];
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ENTITIES[char]);
+
+const renderValue = (value: HtmlValue): string => {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join("");
+  if (value === null || value === undefined || value === false) return "";
+  return escapeHtml(String(value));
+};
+
+// Tagged template that escapes every interpolated value unless it is SafeHtml.
+export const html = (strings: TemplateStringsArray, ...values: HtmlValue[]) =>
+  new SafeHtml(
+    strings.reduce(
+      (output, chunk, index) =>
+        output + chunk + (index < values.length ? renderValue(values[index]) : ""),
+      ""
+    )
+  );
+
+// Only http(s) links survive; anything else (javascript:, data:) becomes "#".
+export const safeUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? url : "#";
+  } catch {
+    return "#";
+  }
+};
+
+// Collapses line breaks and control characters so user text cannot add lines
+// to a subject or a plain-text body.
+export const singleLine = (value: string) =>
+  value.replace(/[\u0000-\u001f\u007f]+/g, " ").trim();
@@ -0,0 +1,21 @@
+export const resolveBaseUrl = () => {
+  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
+  if (process.env.APP_URL) return process.env.APP_URL;
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return "http://localhost:3000";
+};
+
+export const buildUnsubscribeUrl = (baseUrl: string, token: string) =>
+  `${baseUrl}/api/unsubscribe?token=${encodeURIComponent(token)}`;
+
+export const buildConfirmUrl = (baseUrl: string, confirmToken: string) =>
+  `${baseUrl}/api/confirm?token=${encodeURIComponent(confirmToken)}`;
+
+export const buildPreferencesUrl = (baseUrl: string, token: string) =>
+  `${baseUrl}/preferences?token=${encodeURIComponent(token)}`;
+
+// RFC 2369 / RFC 8058 headers so mail clients can offer one-click unsubscribe.
+export const buildListUnsubscribeHeaders = (baseUrl: string, token: string) => ({
+  "List-Unsubscribe": `<${buildUnsubscribeUrl(baseUrl, token)}>`,
+  "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import forecastSi from "@/lib/__fixtures__/nws/forecast-si.json";
+import hourlyQv from "@/lib/__fixtures__/nws/hourly-qv.json";
+import observationMild from "@/lib/__fixtures__/nws/observation-mild.json";
+import observationRejected from "@/lib/__fixtures__/nws/observation-rejected.json";
+import observationSummer from "@/lib/__fixtures__/nws/observation-summer.json";
+import observationWinter from "@/lib/__fixtures__/nws/observation-winter.json";
+import {
+  computeApparentTemperatureF,
+  computeHeatIndexF,
+  convertNwsValue,
+  normalizePeriodTemperature,
+  normalizeQuantity,
+  parseForecastWindSpeed,
+  type NwsQuantity,
+} from "@/lib/nws-units";
+
+type ObservationFixture = {
+  properties: Record<
+    "temperature" | "relativeHumidity" | "windSpeed" | "windChill" | "heatIndex",
+    NwsQuantity
+  >;
+};
+
+const feelsLike = ({ properties }: ObservationFixture) =>
+  computeApparentTemperatureF({
+    temperatureF: normalizeQuantity("temperature", properties.temperature),
+    humidity: normalizeQuantity("percent", properties.relativeHumidity),
+    windSpeedMph: normalizeQuantity("speed", properties.windSpeed),
+    reportedWindChillF: normalizeQuantity("temperature", properties.windChill),
+    reportedHeatIndexF: normalizeQuantity("temperature", properties.heatIndex),
+  });
+
+describe("normalizeQuantity", () => {
+  it("reads observation units from their WMO codes", () => {
+    const { properties } = observationWinter;
+    expect(normalizeQuantity("temperature", properties.temperature)).toBeCloseTo(21.02);
+    expect(normalizeQuantity("speed", properties.windSpeed)).toBeCloseTo(14.97, 2);
+    expect(normalizeQuantity("pressure", properties.barometricPressure)).toBeCloseTo(
+      30.07,
+      2
+    );
+    expect(normalizeQuantity("distance", properties.visibility)).toBeCloseTo(10, 1);
+    expect(normalizeQuantity("angle", properties.windDirection)).toBe(310);
+  });
+
+  it("drops values that failed quality control", () => {
+    const { properties } = observationRejected;
+    expect(normalizeQuantity("temperature", properties.temperature)).toBeNull();
+    expect(normalizeQuantity("percent", properties.relativeHumidity)).toBeNull();
+    expect(normalizeQuantity("pressure", properties.barometricPressure)).not.toBeNull();
+  });
+
+  it("returns null for units it does not know", () => {
+    expect(convertNwsValue("temperature", "wmoUnit:degR", 500)).toBeNull();
+    expect(convertNwsValue("speed", undefined, 10)).toBeNull();
+    expect(convertNwsValue("temperature", "unit:degC", 0)).toBe(32);
+  });
+});
+
+describe("normalizePeriodTemperature", () => {
+  it("honours temperatureUnit on SI forecasts", () => {
+    const [today, tonight] = forecastSi.properties.periods;
+    expect(normalizePeriodTemperature(today)).toBeCloseTo(26.6);
+    expect(normalizePeriodTemperature(tonight)).toBeCloseTo(12.2);
+  });
+
+  it("reads quantity-valued temperatures and tolerates missing ones", () => {
+    const [first, second] = hourlyQv.properties.periods;
+    expect(normalizePeriodTemperature(first)).toBeCloseTo(22);
+    expect(normalizePeriodTemperature(second)).toBeNull();
+  });
+
+  it("does not guess when the unit is missing", () => {
+    expect(
+      normalizePeriodTemperature({ temperature: 20, temperatureUnit: null })
+    ).toBeNull();
+  });
+});
+
+describe("parseForecastWindSpeed", () => {
+  it("takes the upper bound in mph", () => {
+    expect(parseForecastWindSpeed("5 to 10 mph")).toBe(10);
+    expect(parseForecastWindSpeed(hourlyQv.properties.periods[0].windSpeed)).toBe(16);
+    expect(parseForecastWindSpeed(forecastSi.properties.periods[0].windSpeed)).toBeCloseTo(
+      18.64,
+      2
+    );
+    expect(parseForecastWindSpeed("")).toBeNull();
+  });
+});
+
+describe("computeApparentTemperatureF", () => {
+  it("uses the reported wind chill when it is cold and windy", () => {
+    expect(Math.round(feelsLike(observationWinter)!)).toBe(8);
+  });
+
+  it("ignores a reported wind chill above 50°F", () => {
+    expect(Math.round(feelsLike(observationMild)!)).toBe(54);
+  });
+
+  it("computes the heat index when the station omits it", () => {
+    expect(Math.round(feelsLike(observationSummer)!)).toBe(105);
+    expect(computeHeatIndexF(95, 50)).toBeCloseTo(105.2, 1);
+  });
+
+  it("computes wind chill when none is reported", () => {
+    const computed = computeApparentTemperatureF({
+      temperatureF: 21.02,
+      humidity: 57,
+      windSpeedMph: 14.97,
+    });
+    expect(computed).toBeCloseTo(7.5, 1);
+  });
+
+  it("falls back to the air temperature in calm, mild air", () => {
+    expect(
+      computeApparentTemperatureF({ temperatureF: 65, humidity: 40, windSpeedMph: 2 })
+    ).toBe(65);
+    expect(
+      computeApparentTemperatureF({ temperatureF: null, humidity: 40, windSpeedMph: 8 })
+    ).toBeNull();
+  });
+});
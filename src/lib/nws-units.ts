@@ -0,0 +1,168 @@
+// NWS tags every observation and gridpoint quantity with a WMO unit code
+// ("wmoUnit:degC", older responses "unit:degC"), and forecast periods with a
+// bare temperatureUnit. Everything here converts to the US units the payload
+// carries. An unknown unit, or a value quality control rejected, reads as
+// null rather than a silently wrong number.
+
+export type NwsQuantity = {
+  value: number | null;
+  unitCode?: string;
+  qualityControl?: string;
+};
+
+export type NwsDimension =
+  | "temperature"
+  | "speed"
+  | "pressure"
+  | "distance"
+  | "depth"
+  | "percent"
+  | "angle";
+
+const identity = (value: number) => value;
+
+// Target units: °F, mph, inHg, miles, inches, percent, degrees.
+const CONVERSIONS: Record<NwsDimension, Record<string, (value: number) => number>> = {
+  temperature: {
+    degF: identity,
+    degC: (value) => value * (9 / 5) + 32,
+    K: (value) => (value - 273.15) * (9 / 5) + 32,
+  },
+  speed: {
+    "km_h-1": (value) => value / 1.609344,
+    "m_s-1": (value) => value * 2.236936,
+    kt: (value) => value * 1.150779,
+  },
+  pressure: {
+    Pa: (value) => value / 3386.389,
+    hPa: (value) => value / 33.86389,
+  },
+  distance: {
+    m: (value) => value / 1609.344,
+    km: (value) => value / 1.609344,
+  },
+  depth: {
+    mm: (value) => value / 25.4,
+    cm: (value) => value / 2.54,
+    m: (value) => value * 39.37008,
+  },
+  percent: { percent: identity },
+  angle: { "degree_(angle)": identity },
+};
+
+// "X" marks a value that failed quality control outright.
+const REJECTED_QUALITY = "X";
+
+export const convertNwsValue = (
+  dimension: NwsDimension,
+  unitCode: string | undefined,
+  value: number | null
+) => {
+  if (value === null || !Number.isFinite(value) || !unitCode) return null;
+  const unit = unitCode.slice(unitCode.indexOf(":") + 1);
+  const convert = CONVERSIONS[dimension][unit];
+  return convert ? convert(value) : null;
+};
+
+export const normalizeQuantity = (
+  dimension: NwsDimension,
+  quantity: NwsQuantity | null | undefined
+) => {
+  if (!quantity || quantity.qualityControl === REJECTED_QUALITY) return null;
+  return convertNwsValue(dimension, quantity.unitCode, quantity.value);
+};
+
+// Forecast periods carry a plain number plus "F" or "C" (the latter when the
+// request asked for SI units), or a full quantity under the
+// forecast_temperature_qv feature flag.
+export const normalizePeriodTemperature = (period: {
+  temperature: number | NwsQuantity | null;
+  temperatureUnit?: string | null;
+}) => {
+  const { temperature, temperatureUnit } = period;
+  if (temperature === null) return null;
+  if (typeof temperature === "object") {
+    return normalizeQuantity("temperature", temperature);
+  }
+  const unitCode =
+    temperatureUnit === "C" ? "degC" : temperatureUnit === "F" ? "degF" : undefined;
+  return convertNwsValue("temperature", unitCode, temperature);
+};
+
+// Forecast wind reads "10 mph", "5 to 10 mph" or, in SI, "15 to 25 km/h".
+// Gusty ranges are summarized by their upper bound.
+export const parseForecastWindSpeed = (value: string | null | undefined) => {
+  const speeds = value?.match(/\d+(?:\.\d+)?/g);
+  if (!speeds) return null;
+  const upper = Number(speeds[speeds.length - 1]);
+  if (/km\/h/i.test(value ?? "")) return convertNwsValue("speed", "km_h-1", upper);
+  if (/m\/s/i.test(value ?? "")) return convertNwsValue("speed", "m_s-1", upper);
+  if (/kt|knot/i.test(value ?? "")) return convertNwsValue("speed", "kt", upper);
+  return upper;
+};
+
+// NWS wind chill (2001): defined at or below 50°F with wind of at least 3 mph.
+export const computeWindChillF = (temperatureF: number, windSpeedMph: number) => {
+  const factor = windSpeedMph ** 0.16;
+  return 35.74 + 0.6215 * temperatureF - 35.75 * factor + 0.4275 * temperatureF * factor;
+};
+
+// NWS heat index: Steadman's simple form, switching to the Rothfusz
+// regression (with its dry and humid adjustments) once that reaches 80°F.
+export const computeHeatIndexF = (temperatureF: number, humidity: number) => {
+  const T = temperatureF;
+  const RH = humidity;
+  const simple = 0.5 * (T + 61 + (T - 68) * 1.2 + RH * 0.094);
+  if ((simple + T) / 2 < 80) return simple;
+
+  let index =
+    -42.379 +
+    2.04901523 * T +
+    10.14333127 * RH -
+    0.22475541 * T * RH -
+    0.00683783 * T * T -
+    0.05481717 * RH * RH +
+    0.00122874 * T * T * RH +
+    0.00085282 * T * RH * RH -
+    0.00000199 * T * T * RH * RH;
+  if (RH < 13 && T >= 80 && T <= 112) {
+    index -= ((13 - RH) / 4) * Math.sqrt((17 - Math.abs(T - 95)) / 17);
+  } else if (RH > 85 && T >= 80 && T <= 87) {
+    index += ((RH - 85) / 10) * ((87 - T) / 5);
+  }
+  return index;
+};
+
+const WIND_CHILL_MAX_F = 50;
+const WIND_CHILL_MIN_MPH = 3;
+const HEAT_INDEX_MIN_F = 80;
+
+// What the air feels like: wind chill when it is cold and windy, heat index
+// when it is hot, otherwise the air temperature. Reported wind chill or heat
+// index values are used only where they apply, and computed when missing.
+export const computeApparentTemperatureF = ({
+  temperatureF,
+  humidity,
+  windSpeedMph,
+  reportedWindChillF = null,
+  reportedHeatIndexF = null,
+}: {
+  temperatureF: number | null;
+  humidity: number | null;
+  windSpeedMph: number | null;
+  reportedWindChillF?: number | null;
+  reportedHeatIndexF?: number | null;
+}) => {
+  if (temperatureF === null) return null;
+  if (
+    temperatureF <= WIND_CHILL_MAX_F &&
+    windSpeedMph !== null &&
+    windSpeedMph >= WIND_CHILL_MIN_MPH
+  ) {
+    return reportedWindChillF ?? computeWindChillF(temperatureF, windSpeedMph);
+  }
+  if (temperatureF >= HEAT_INDEX_MIN_F && humidity !== null) {
+    return reportedHeatIndexF ?? computeHeatIndexF(temperatureF, humidity);
+  }
+  return temperatureF;
+};
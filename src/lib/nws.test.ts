@@ -0,0 +1,179 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import alertsHurricane from "@/lib/__fixtures__/nws/alerts-hurricane.json";
+import points from "@/lib/__fixtures__/nws/points-brooklyn.json";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import {
+  BROOKLYN,
+  buildScenario,
+  NWS_ENDPOINTS,
+  SCENARIO_NOW,
+  type ScenarioName,
+} from "@/test/scenarios";
+
+let fake: FakeFetch;
+
+// Module state (the points cache) is reset so each scenario starts cold.
+const loadScenario = async (name: ScenarioName) => {
+  fake = installFakeFetch(buildScenario(name));
+  return import("@/lib/nws");
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+});
+
+afterEach(() => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("getWeatherByCoords", () => {
+  it("builds a payload from the nearest station and the forecast", async () => {
+    const { getWeatherByCoords } = await loadScenario("clear");
+    const weather = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(weather.provider).toBe("nws");
+    expect(weather.location.name).toBe("Brooklyn, NY");
+    expect(weather.current).toMatchObject({
+      temperatureF: 27,
+      feelsLikeF: 18,
+      windSpeedMph: 9,
+      windGustMph: 20,
+      windDirection: "WNW",
+      pressureInHg: 30.15,
+      source: "observed",
+      station: { id: "KNYC", ageMinutes: 9 },
+    });
+    expect(weather.daily[0]).toMatchObject({ highF: 34, lowF: 22 });
+    expect(weather.hourly).toHaveLength(3);
+    expect(weather.hourly[0]).toMatchObject({
+      temperatureF: 27,
+      feelsLikeF: 19,
+      windGustMph: 23,
+      skyCover: 12,
+    });
+    expect(weather.alerts).toEqual([]);
+  });
+
+  it("leaves alerts to the separately cached alerts lookup", async () => {
+    const { getWeatherByCoords } = await loadScenario("hurricane");
+    const { alerts } = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(alerts).toEqual([]);
+    expect(fake.count(NWS_ENDPOINTS.alerts)).toBe(0);
+  });
+
+  it("ranks hurricane alerts above the watch they replace", async () => {
+    const { getActiveAlerts } = await loadScenario("hurricane");
+    const alerts = await getActiveAlerts(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(alerts.map((alert) => alert.event)).toEqual([
+      "Hurricane Warning",
+      "Tropical Storm Watch",
+    ]);
+    expect(alerts[0]).toMatchObject({ severity: "Extreme", urgency: "Immediate" });
+  });
+
+  it("treats inherited property names as unknown severity and urgency", async () => {
+    const { getActiveAlerts } = await loadScenario("hurricane");
+    const [watch, warning] = alertsHurricane.features;
+    fake.use([
+      {
+        url: NWS_ENDPOINTS.alerts,
+        reply: {
+          body: {
+            ...alertsHurricane,
+            features: [
+              watch,
+              {
+                ...warning,
+                properties: {
+                  ...warning.properties,
+                  severity: "toString",
+                  urgency: "constructor",
+                },
+              },
+            ],
+          },
+        },
+      },
+    ]);
+    const alerts = await getActiveAlerts(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(alerts.map((alert) => alert.event)).toEqual([
+      "Tropical Storm Watch",
+      "Hurricane Warning",
+    ]);
+    expect(alerts[1]).toMatchObject({ severity: "Unknown", urgency: "Unknown" });
+  });
+
+  it("totals blizzard snowfall by local day", async () => {
+    const { getWeatherByCoords } = await loadScenario("blizzard");
+    const weather = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(weather.daily[0].snowfallIn).toBe(13);
+    expect(weather.daily[1].snowfallIn).toBe(3);
+    expect(weather.hourly[0].windGustMph).toBe(48);
+  });
+
+  it("totals snowfall by the location's own day rather than Eastern time", async () => {
+    const { getWeatherByCoords } = await loadScenario("blizzard");
+    fake.use([
+      {
+        url: NWS_ENDPOINTS.points,
+        reply: {
+          body: {
+            ...points,
+            properties: { ...points.properties, timeZone: "America/Los_Angeles" },
+          },
+        },
+      },
+    ]);
+    const weather = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    // 19:00Z–07:00Z is all still the 14th in Pacific time.
+    expect(weather.daily[0].snowfallIn).toBe(16);
+    expect(weather.daily[1].snowfallIn).toBe(0);
+  });
+
+  it("falls back to the forecast when no station has a usable observation", async () => {
+    const { getWeatherByCoords } = await loadScenario("missingObservation");
+    const { current } = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(current).toMatchObject({
+      temperatureF: 27,
+      feelsLikeF: 19,
+      windSpeedMph: 9,
+      source: "forecast",
+      station: null,
+    });
+    ["KNYC", "KLGA", "KJFK"].forEach((station) => {
+      expect(fake.count(NWS_ENDPOINTS.observation(station))).toBe(1);
+    });
+  });
+
+  it("surfaces a 500 as a retryable NwsRequestError", async () => {
+    const { getWeatherByCoords, isRetryableNwsError, NwsRequestError } =
+      await loadScenario("nwsOutage");
+    const error = await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon).catch(
+      (reason: unknown) => reason
+    );
+
+    expect(error).toBeInstanceOf(NwsRequestError);
+    expect(error).toMatchObject({ status: 500 });
+    expect(isRetryableNwsError(error)).toBe(true);
+  });
+
+  it("reuses cached points metadata", async () => {
+    const { getWeatherByCoords } = await loadScenario("clear");
+    await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+    await getWeatherByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(fake.count(NWS_ENDPOINTS.points)).toBe(1);
+    expect(fake.count(NWS_ENDPOINTS.forecast)).toBe(2);
+  });
+});
@@ -1,5 +1,15 @@
+import { getMetadataCacheStore } from "@/lib/cache-store";
+import {
+  computeApparentTemperatureF,
+  normalizePeriodTemperature,
+  normalizeQuantity,
+  parseForecastWindSpeed,
+  type NwsDimension,
+  type NwsQuantity,
+} from "@/lib/nws-units";
+
 const NWS_BASE_URL = "https://api.weather.gov";
-const NYC_COORDS = { lat: 40.7128, lon: -74.006 };
+export const NYC_COORDS = { lat: 40.7128, lon: -74.006 };
 const NWS_TIMEZONE = "America/New_York";
 
 const USER_AGENT =
@@ -11,8 +21,8 @@ type NwsForecastPeriod = {
   startTime: string;
   endTime: string;
   isDaytime: boolean;
-  temperature: number;
-  temperatureUnit: string;
+  temperature: number | NwsQuantity | null;
+  temperatureUnit?: string | null;
   windSpeed: string;
   windDirection: string;
   shortForecast: string;
@@ -31,8 +41,8 @@ type NwsHourlyResponse = {
   properties: {
     periods: Array<
       NwsForecastPeriod & {
-        probabilityOfPrecipitation?: { value: number | null };
-        relativeHumidity?: { value: number | null };
+        probabilityOfPrecipitation?: NwsQuantity;
+        relativeHumidity?: NwsQuantity;
       }
     >;
     updated: string;
@@ -41,6 +51,7 @@ type NwsHourlyResponse = {
 
 type NwsStationsResponse = {
   features: Array<{
+    geometry?: { coordinates?: [number, number] } | null;
     properties: {
       stationIdentifier: string;
       name: string;
@@ -52,23 +63,68 @@ type NwsObservationResponse = {
   properties: {
     timestamp: string;
     textDescription: string;
-    temperature: { value: number | null };
-    dewpoint: { value: number | null };
-    windSpeed: { value: number | null };
-    windDirection: { value: number | null };
-    windGust: { value: number | null };
-    relativeHumidity: { value: number | null };
-    barometricPressure: { value: number | null };
-    visibility: { value: number | null };
-    heatIndex: { value: number | null };
-    windChill: { value: number | null };
+    temperature: NwsQuantity;
+    dewpoint: NwsQuantity;
+    windSpeed: NwsQuantity;
+    windDirection: NwsQuantity;
+    windGust: NwsQuantity;
+    relativeHumidity: NwsQuantity;
+    barometricPressure: NwsQuantity;
+    visibility: NwsQuantity;
+    heatIndex: NwsQuantity;
+    windChill: NwsQuantity;
+  };
+};
+
+type NwsAlertsResponse = {
+  features: Array<{
+    properties: {
+      id: string;
+      event: string;
+      severity: string;
+      urgency: string;
+      headline: string | null;
+      description: string | null;
+      instruction: string | null;
+      onset: string | null;
+      effective: string | null;
+      expires: string | null;
+      ends: string | null;
+      areaDesc: string;
+    };
+  }>;
+};
+
+// Gridpoint values cover ISO 8601 intervals such as
+// "2026-01-10T06:00:00+00:00/PT3H" rather than single hours.
+type NwsGridSeries = {
+  uom?: string;
+  values: Array<{ validTime: string; value: number | null }>;
+};
+
+type NwsGridpointResponse = {
+  properties: {
+    updateTime: string;
+    apparentTemperature?: NwsGridSeries;
+    windChill?: NwsGridSeries;
+    skyCover?: NwsGridSeries;
+    windGust?: NwsGridSeries;
+    probabilityOfThunder?: NwsGridSeries;
+    quantitativePrecipitation?: NwsGridSeries;
+    snowfallAmount?: NwsGridSeries;
+    iceAccumulation?: NwsGridSeries;
   };
 };
 
 type NwsPointsResponse = {
   properties: {
+    gridId: string;
+    gridX: number;
+    gridY: number;
+    timeZone: string;
     forecast: string;
     forecastHourly: string;
+    forecastGridData: string;
     observationStations: string;
     relativeLocation?: {
       properties?: {
@@ -85,27 +141,55 @@ const round = (value: number | null, digits = 0) => {
   return Math.round(value * factor) / factor;
 };
 
-const cToF = (value: number | null) =>
-  value === null ? null : round(value * (9 / 5) + 32);
+const HOUR_MS = 60 * 60 * 1000;
 
-const mpsToMph = (value: number | null) =>
-  value === null ? null : round(value * 2.23694);
+const DURATION_PATTERN = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/;
 
-const metersToMiles = (value: number | null) =>
-  value === null ? null : round(value / 1609.34, 1);
+const parseValidTime = (validTime: string) => {
+  const [start, duration] = validTime.split("/");
+  const startMs = Date.parse(start);
+  const match = DURATION_PATTERN.exec(duration ?? "");
+  if (Number.isNaN(startMs) || !match) return null;
+  const [, days = "0", hours = "0", minutes = "0"] = match;
+  const totalHours =
+    Number(days) * 24 + Number(hours) + Math.ceil(Number(minutes) / 60);
+  return { startMs, hours: Math.max(1, totalHours) };
+};
 
-const pascalToInHg = (value: number | null) =>
-  value === null ? null : round(value * 0.0002953, 2);
+// Expands a series into hour start (ms) -> value in payload units.
+// Accumulations are split evenly across the hours of their interval; other
+// quantities hold for each.
+const expandGridSeries = (
+  series: NwsGridSeries | undefined,
+  dimension: NwsDimension,
+  accumulate = false
+) => {
+  const hourly = new Map<number, number>();
+  (series?.values ?? []).forEach(({ validTime, value }) => {
+    const interval = parseValidTime(validTime);
+    const converted = normalizeQuantity(dimension, {
+      unitCode: series?.uom,
+      value: value !== null && accumulate ? value / (interval?.hours ?? 1) : value,
+    });
+    if (!interval || converted === null) return;
+    for (let hour = 0; hour < interval.hours; hour += 1) {
+      hourly.set(interval.startMs + hour * HOUR_MS, converted);
+    }
+  });
+  return hourly;
+};
 
-const formatDateKey = (iso: string) =>
+// Days are the location's own, so evening rain out west is not counted
+// toward the next day's total.
+const formatDateKey = (iso: string, timeZone: string) =>
   new Intl.DateTimeFormat("en-US", {
-    timeZone: NWS_TIMEZONE,
+    timeZone,
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
   }).format(new Date(iso));
 
-const degreesToCardinal = (value: number | null) => {
+export const degreesToCardinal = (value: number | null) => {
   if (value === null || Number.isNaN(value)) return null;
   const directions = [
     "N",
@@ -129,23 +213,149 @@ const degreesToCardinal = (value: number | null) => {
   return directions[index];
 };
 
-const fetchJson = async <T>(url: string): Promise<T> => {
-  const response = await fetch(url, {
-    headers: {
-      "User-Agent": USER_AGENT,
-      Accept: "application/geo+json",
-    },
-    next: { revalidate: 300 },
-  });
+// Per-endpoint budgets; the gridpoint and forecast products are the slowest.
+const TIMEOUTS_MS = {
+  points: 5000,
+  forecast: 8000,
+  grid: 10000,
+  stations: 5000,
+  observation: 5000,
+  alerts: 5000,
+};
+
+// `status` is null for timeouts and network failures.
+export class NwsRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null
+  ) {
+    super(message);
+    this.name = "NwsRequestError";
+  }
+}
+
+// Timeouts, network errors, rate limits and server errors are worth another
+// try; a 404 (a point outside NWS coverage) or other 4xx will not change.
+export const isRetryableNwsError = (error: unknown) =>
+  error instanceof NwsRequestError &&
+  (error.status === null || error.status === 429 || error.status >= 500);
+
+const fetchJson = async <T>(url: string, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "application/geo+json",
+      },
+      next: { revalidate: 300 },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new NwsRequestError(
+        `NWS request failed: ${response.status} ${url}`,
+        response.status
+      );
+    }
 
-  if (!response.ok) {
-    throw new Error(`NWS request failed: ${response.status} ${url}`);
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof NwsRequestError) throw error;
+    const reason = controller.signal.aborted
+      ? `timed out after ${timeoutMs}ms`
+      : "network error";
+    throw new NwsRequestError(`NWS request ${reason}: ${url}`, null);
+  } finally {
+    clearTimeout(timer);
   }
+};
+
+export type AlertSeverity = "Extreme" | "Severe" | "Moderate" | "Minor" | "Unknown";
+
+export type AlertUrgency = "Immediate" | "Expected" | "Future" | "Past" | "Unknown";
+
+export type WeatherAlert = {
+  id: string;
+  event: string;
+  severity: AlertSeverity;
+  urgency: AlertUrgency;
+  headline: string;
+  description: string | null;
+  instruction: string | null;
+  onset: string | null;
+  expires: string | null;
+  areaDesc: string;
+};
 
-  return response.json() as Promise<T>;
+export const ALERT_SEVERITY_RANK: Record<AlertSeverity, number> = {
+  Extreme: 4,
+  Severe: 3,
+  Moderate: 2,
+  Minor: 1,
+  Unknown: 0,
 };
 
+const ALERT_URGENCY_RANK: Record<AlertUrgency, number> = {
+  Immediate: 4,
+  Expected: 3,
+  Future: 2,
+  Past: 1,
+  Unknown: 0,
+};
+
+const toSeverity = (value: string): AlertSeverity =>
+  Object.hasOwn(ALERT_SEVERITY_RANK, value)
+    ? (value as AlertSeverity)
+    : "Unknown";
+
+const toUrgency = (value: string): AlertUrgency =>
+  Object.hasOwn(ALERT_URGENCY_RANK, value)
+    ? (value as AlertUrgency)
+    : "Unknown";
+
+export const compareAlerts = (a: WeatherAlert, b: WeatherAlert) =>
+  ALERT_SEVERITY_RANK[b.severity] - ALERT_SEVERITY_RANK[a.severity] ||
+  ALERT_URGENCY_RANK[b.urgency] - ALERT_URGENCY_RANK[a.urgency] ||
+  (a.onset ?? "").localeCompare(b.onset ?? "");
+
+export const meetsAlertSeverity = (
+  alert: WeatherAlert,
+  minimum: AlertSeverity
+) => ALERT_SEVERITY_RANK[alert.severity] >= ALERT_SEVERITY_RANK[minimum];
+
+export const getActiveAlerts = async (
+  lat: number,
+  lon: number
+): Promise<WeatherAlert[]> => {
+  const alerts = await fetchJson<NwsAlertsResponse>(
+    `${NWS_BASE_URL}/alerts/active?point=${lat},${lon}`,
+    TIMEOUTS_MS.alerts
+  );
+
+  return (alerts.features ?? [])
+    .map(({ properties }) => ({
+      id: properties.id,
+      event: properties.event,
+      severity: toSeverity(properties.severity),
+      urgency: toUrgency(properties.urgency),
+      headline: properties.headline || properties.event,
+      description: properties.description,
+      instruction: properties.instruction,
+      onset: properties.onset ?? properties.effective,
+      expires: properties.ends ?? properties.expires,
+      areaDesc: properties.areaDesc,
+    }))
+    .sort(compareAlerts);
+};
+
+export type WeatherProviderId = "nws" | "open-meteo";
+
 export type WeatherPayload = {
+  // Which upstream produced the forecast.
+  provider: WeatherProviderId;
   location: {
     name: string;
     lat: number;
@@ -163,6 +373,15 @@ export type WeatherPayload = {
     pressureInHg: number | null;
     visibilityMiles: number | null;
     observedAt: string | null;
+    // "observed" when a nearby station reported recently with a temperature;
+    // otherwise the values come from the current forecast hour.
+    source: "observed" | "forecast";
+    station: {
+      id: string;
+      name: string;
+      distanceMiles: number | null;
+      ageMinutes: number;
+    } | null;
   };
   daily: Array<{
     date: string;
@@ -171,6 +390,9 @@ export type WeatherPayload = {
     lowF: number | null;
     summary: string;
     icon: string;
+    // Liquid-equivalent precipitation and snowfall totals from the grid data.
+    precipitationIn: number | null;
+    snowfallIn: number | null;
   }>;
   hourly: Array<{
     time: string;
@@ -179,63 +401,290 @@ export type WeatherPayload = {
     icon: string;
     precipChance: number | null;
     humidity: number | null;
+    feelsLikeF: number | null;
+    windChillF: number | null;
+    skyCover: number | null;
+    windGustMph: number | null;
+    thunderChance: number | null;
+    precipitationIn: number | null;
+    snowfallIn: number | null;
+    iceIn: number | null;
   }>;
+  alerts: WeatherAlert[];
   updatedAt: {
     forecast: string;
     hourly: string;
+    grid: string | null;
   };
 };
 
-export const getWeatherByCoords = async (
+// What /points and the station list say about a coordinate. The grid office
+// and nearest stations almost never change, so this is cached far longer than
+// the forecast itself.
+export type NwsPointMetadata = {
+  office: string;
+  gridX: number;
+  gridY: number;
+  timeZone: string;
+  city: string | null;
+  state: string | null;
+  forecastUrl: string;
+  hourlyUrl: string;
+  gridUrl: string | null;
+  // Nearest first.
+  stations: Array<{
+    id: string;
+    name: string;
+    lat: number | null;
+    lon: number | null;
+  }>;
+};
+
+const POINTS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CACHED_STATIONS = 5;
+
+// ~100 m buckets; the NWS grid cells are 2.5 km across.
+const roundCoord = (value: number) => Number(value.toFixed(3));
+
+const fetchPointMetadata = async (
   lat: number,
-  lon: number,
-  overrideName?: string
-): Promise<WeatherPayload> => {
+  lon: number
+): Promise<NwsPointMetadata> => {
   const points = await fetchJson<NwsPointsResponse>(
-    `${NWS_BASE_URL}/points/${lat},${lon}`
+    `${NWS_BASE_URL}/points/${lat},${lon}`,
+    TIMEOUTS_MS.points
+  );
+  const { properties } = points;
+  const stations = await fetchJson<NwsStationsResponse>(
+    properties.observationStations,
+    TIMEOUTS_MS.stations
   );
 
-  const forecastUrl = points.properties.forecast;
-  const hourlyUrl = points.properties.forecastHourly;
-  const stationsUrl = points.properties.observationStations;
+  return {
+    office: properties.gridId,
+    gridX: properties.gridX,
+    gridY: properties.gridY,
+    timeZone: properties.timeZone,
+    city: properties.relativeLocation?.properties?.city ?? null,
+    state: properties.relativeLocation?.properties?.state ?? null,
+    forecastUrl: properties.forecast,
+    hourlyUrl: properties.forecastHourly,
+    gridUrl: properties.forecastGridData || null,
+    stations: (stations.features ?? [])
+      .filter((feature) => feature.properties?.stationIdentifier)
+      .slice(0, MAX_CACHED_STATIONS)
+      .map((feature) => {
+        const [stationLon, stationLat] = feature.geometry?.coordinates ?? [];
+        return {
+          id: feature.properties.stationIdentifier,
+          name: feature.properties.name,
+          lat: typeof stationLat === "number" ? stationLat : null,
+          lon: typeof stationLon === "number" ? stationLon : null,
+        };
+      }),
+  };
+};
+
+export const getPointMetadata = async (lat: number, lon: number) => {
+  const roundedLat = roundCoord(lat);
+  const roundedLon = roundCoord(lon);
+  const key = `points:${roundedLat},${roundedLon}`;
+  const store = await getMetadataCacheStore();
+  const cached = await store.get<NwsPointMetadata>(key);
+  if (cached && Date.now() - cached.fetchedAt < POINTS_TTL_MS) {
+    return cached.data;
+  }
+
+  const metadata = await fetchPointMetadata(roundedLat, roundedLon);
+  await store
+    .set(key, { data: metadata, fetchedAt: Date.now() })
+    .catch(() => undefined);
+  return metadata;
+};
+
+// An observation older than this, or without a temperature, sends us to the
+// next nearest station.
+const MAX_OBSERVATION_AGE_MS = 90 * 60 * 1000;
+const MAX_STATION_ATTEMPTS = 3;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const distanceMiles = (
+  from: { lat: number; lon: number },
+  to: { lat: number | null; lon: number | null }
+) => {
+  if (to.lat === null || to.lon === null) return null;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return round(2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a)), 1);
+};
+
+type StationObservation = {
+  observation: NwsObservationResponse;
+  station: NonNullable<WeatherPayload["current"]["station"]>;
+};
+
+// Walks out from the nearest station until one has a recent, complete
+// observation. One at a time: the nearest station usually answers.
+const findObservation = async (
+  stations: NwsPointMetadata["stations"],
+  lat: number,
+  lon: number
+): Promise<StationObservation | null> => {
+  for (const station of stations.slice(0, MAX_STATION_ATTEMPTS)) {
+    const observation = await fetchJson<NwsObservationResponse>(
+      `${NWS_BASE_URL}/stations/${station.id}/observations/latest`,
+      TIMEOUTS_MS.observation
+    ).catch(() => null);
+    if (
+      !observation ||
+      normalizeQuantity("temperature", observation.properties.temperature) === null
+    ) {
+      continue;
+    }
+    const ageMs = Date.now() - Date.parse(observation.properties.timestamp);
+    if (!(ageMs <= MAX_OBSERVATION_AGE_MS)) continue;
+
+    return {
+      observation,
+      station: {
+        id: station.id,
+        name: station.name,
+        distanceMiles: distanceMiles({ lat, lon }, station),
+        ageMinutes: Math.max(0, Math.round(ageMs / 60000)),
+      },
+    };
+  }
+  return null;
+};
+
+const fromObservation = (
+  { observation, station }: StationObservation,
+  forecastCondition?: string
+): WeatherPayload["current"] => {
+  const { properties } = observation;
+  const temperatureF = normalizeQuantity("temperature", properties.temperature);
+  const humidity = normalizeQuantity("percent", properties.relativeHumidity);
+  const windSpeedMph = normalizeQuantity("speed", properties.windSpeed);
+  return {
+    temperatureF: round(temperatureF),
+    feelsLikeF: round(
+      computeApparentTemperatureF({
+        temperatureF,
+        humidity,
+        windSpeedMph,
+        reportedWindChillF: normalizeQuantity("temperature", properties.windChill),
+        reportedHeatIndexF: normalizeQuantity("temperature", properties.heatIndex),
+      })
+    ),
+    condition:
+      properties.textDescription || forecastCondition || "Current conditions",
+    humidity: round(humidity),
+    windSpeedMph: round(windSpeedMph),
+    windGustMph: round(normalizeQuantity("speed", properties.windGust)),
+    windDirection: degreesToCardinal(
+      normalizeQuantity("angle", properties.windDirection)
+    ),
+    dewPointF: round(normalizeQuantity("temperature", properties.dewpoint)),
+    pressureInHg: round(
+      normalizeQuantity("pressure", properties.barometricPressure),
+      2
+    ),
+    visibilityMiles: round(normalizeQuantity("distance", properties.visibility), 1),
+    observedAt: properties.timestamp,
+    source: "observed",
+    station,
+  };
+};
 
-  const [forecast, hourly, stations] = await Promise.all([
-    fetchJson<NwsForecastResponse>(forecastUrl),
-    fetchJson<NwsHourlyResponse>(hourlyUrl),
-    fetchJson<NwsStationsResponse>(stationsUrl),
+export const getWeatherByCoords = async (
+  lat: number,
+  lon: number,
+  overrideName?: string
+): Promise<WeatherPayload> => {
+  const metadata = await getPointMetadata(lat, lon);
+
+  const [forecast, hourly, grid] = await Promise.all([
+    fetchJson<NwsForecastResponse>(metadata.forecastUrl, TIMEOUTS_MS.forecast),
+    fetchJson<NwsHourlyResponse>(metadata.hourlyUrl, TIMEOUTS_MS.forecast),
+    // The grid only adds detail, so the forecast still renders without it.
+    metadata.gridUrl
+      ? fetchJson<NwsGridpointResponse>(metadata.gridUrl, TIMEOUTS_MS.grid).catch(
+          () => null
+        )
+      : Promise.resolve(null),
   ]);
 
-  const stationId = stations.features?.[0]?.properties?.stationIdentifier;
-  const observation = stationId
-    ? await fetchJson<NwsObservationResponse>(
-        `${NWS_BASE_URL}/stations/${stationId}/observations/latest`
-      )
-    : null;
+  const observed = await findObservation(metadata.stations, lat, lon);
 
   const locationName = overrideName ||
-    [
-      points.properties.relativeLocation?.properties?.city,
-      points.properties.relativeLocation?.properties?.state,
-    ]
-      .filter(Boolean)
-      .join(", ");
-
-  const hourlyPeriods = hourly.properties.periods.slice(0, 48);
-
-  const dailyMap = new Map<
-    string,
-    {
-      date: string;
-      name: string;
-      highF: number | null;
-      lowF: number | null;
-      summary: string;
-      icon: string;
-    }
-  >();
+    [metadata.city, metadata.state].filter(Boolean).join(", ");
+
+  // Periods without a readable temperature are dropped rather than charted
+  // as zero.
+  const hourlyPeriods = hourly.properties.periods
+    .map((period) => ({
+      ...period,
+      temperatureF: round(normalizePeriodTemperature(period)),
+    }))
+    .filter(
+      (period): period is typeof period & { temperatureF: number } =>
+        period.temperatureF !== null
+    )
+    .slice(0, 48);
+
+  const gridSeries = {
+    feelsLikeF: expandGridSeries(
+      grid?.properties.apparentTemperature,
+      "temperature"
+    ),
+    windChillF: expandGridSeries(grid?.properties.windChill, "temperature"),
+    skyCover: expandGridSeries(grid?.properties.skyCover, "percent"),
+    windGustMph: expandGridSeries(grid?.properties.windGust, "speed"),
+    thunderChance: expandGridSeries(
+      grid?.properties.probabilityOfThunder,
+      "percent"
+    ),
+    precipitationIn: expandGridSeries(
+      grid?.properties.quantitativePrecipitation,
+      "depth",
+      true
+    ),
+    snowfallIn: expandGridSeries(grid?.properties.snowfallAmount, "depth", true),
+    iceIn: expandGridSeries(grid?.properties.iceAccumulation, "depth", true),
+  };
+
+  const gridValue = (
+    series: Map<number, number>,
+    time: string,
+    digits = 0
+  ) => {
+    if (!grid) return null;
+    return round(series.get(Date.parse(time)) ?? null, digits);
+  };
+
+  const timeZone = metadata.timeZone || NWS_TIMEZONE;
+  const sumByDate = (series: Map<number, number>) => {
+    const totals = new Map<string, number>();
+    series.forEach((value, hourMs) => {
+      const dateKey = formatDateKey(new Date(hourMs).toISOString(), timeZone);
+      totals.set(dateKey, (totals.get(dateKey) ?? 0) + value);
+    });
+    return totals;
+  };
+  const precipitationByDate = sumByDate(gridSeries.precipitationIn);
+  const snowfallByDate = sumByDate(gridSeries.snowfallIn);
+
+  const dailyMap = new Map<string, WeatherPayload["daily"][number]>();
 
   forecast.properties.periods.forEach((period) => {
-    const dateKey = formatDateKey(period.startTime);
+    const dateKey = formatDateKey(period.startTime, timeZone);
     if (!dailyMap.has(dateKey)) {
       dailyMap.set(dateKey, {
         date: period.startTime,
@@ -244,6 +693,10 @@ export const getWeatherByCoords = async (
         lowF: null,
         summary: period.shortForecast,
         icon: period.icon,
+        precipitationIn: grid
+          ? round(precipitationByDate.get(dateKey) ?? 0, 2)
+          : null,
+        snowfallIn: grid ? round(snowfallByDate.get(dateKey) ?? 0, 1) : null,
       });
     }
 
@@ -251,69 +704,76 @@ export const getWeatherByCoords = async (
     if (!entry) return;
 
     if (period.isDaytime) {
-      entry.highF = period.temperature;
+      entry.highF = round(normalizePeriodTemperature(period));
       entry.summary = period.shortForecast;
       entry.icon = period.icon;
     } else {
-      entry.lowF = period.temperature;
+      entry.lowF = round(normalizePeriodTemperature(period));
       entry.summary = entry.summary || period.shortForecast;
     }
   });
 
   const daily = Array.from(dailyMap.values()).slice(0, 7);
 
-  const currentTempF = cToF(observation?.properties.temperature.value ?? null);
-  const feelsLike =
-    observation?.properties.heatIndex.value ??
-    observation?.properties.windChill.value ??
-    observation?.properties.temperature.value ??
-    null;
+  const currentHour = hourlyPeriods[0];
+  const current: WeatherPayload["current"] = observed
+    ? fromObservation(observed, currentHour?.shortForecast)
+    : {
+        temperatureF: currentHour?.temperatureF ?? null,
+        feelsLikeF: currentHour
+          ? gridValue(gridSeries.feelsLikeF, currentHour.startTime)
+          : null,
+        condition: currentHour?.shortForecast ?? "Current conditions",
+        humidity: round(
+          normalizeQuantity("percent", currentHour?.relativeHumidity)
+        ),
+        windSpeedMph: round(parseForecastWindSpeed(currentHour?.windSpeed)),
+        windGustMph: currentHour
+          ? gridValue(gridSeries.windGustMph, currentHour.startTime)
+          : null,
+        windDirection: currentHour?.windDirection || null,
+        dewPointF: null,
+        pressureInHg: null,
+        visibilityMiles: null,
+        observedAt: null,
+        source: "forecast",
+        station: null,
+      };
 
   return {
+    provider: "nws",
     location: {
       name: locationName || "Unknown",
       lat,
       lon,
     },
-    current: {
-      temperatureF: currentTempF ?? hourlyPeriods[0]?.temperature ?? null,
-      feelsLikeF: cToF(feelsLike),
-      condition:
-        observation?.properties.textDescription ??
-        hourlyPeriods[0]?.shortForecast ??
-        "Current conditions",
-      humidity: round(observation?.properties.relativeHumidity.value ?? null),
-      windSpeedMph: mpsToMph(observation?.properties.windSpeed.value ?? null),
-      windGustMph: mpsToMph(observation?.properties.windGust.value ?? null),
-      windDirection: degreesToCardinal(
-        observation?.properties.windDirection.value ?? null
-      ),
-      dewPointF: cToF(observation?.properties.dewpoint.value ?? null),
-      pressureInHg: pascalToInHg(
-        observation?.properties.barometricPressure.value ?? null
-      ),
-      visibilityMiles: metersToMiles(
-        observation?.properties.visibility.value ?? null
-      ),
-      observedAt: observation?.properties.timestamp ?? null,
-    },
+    current,
     daily,
     hourly: hourlyPeriods.map((period) => ({
       time: period.startTime,
-      temperatureF: period.temperature,
+      temperatureF: period.temperatureF,
       summary: period.shortForecast,
       icon: period.icon,
       precipChance: round(
-        period.probabilityOfPrecipitation?.value ?? null
-      ) as number | null,
-      humidity: round(period.relativeHumidity?.value ?? null) as number | null,
+        normalizeQuantity("percent", period.probabilityOfPrecipitation)
+      ),
+      humidity: round(normalizeQuantity("percent", period.relativeHumidity)),
+      feelsLikeF: gridValue(gridSeries.feelsLikeF, period.startTime),
+      windChillF: gridValue(gridSeries.windChillF, period.startTime),
+      skyCover: gridValue(gridSeries.skyCover, period.startTime),
+      windGustMph: gridValue(gridSeries.windGustMph, period.startTime),
+      thunderChance: gridValue(gridSeries.thunderChance, period.startTime),
+      precipitationIn: gridValue(gridSeries.precipitationIn, period.startTime, 2),
+      snowfallIn: gridValue(gridSeries.snowfallIn, period.startTime, 1),
+      iceIn: gridValue(gridSeries.iceIn, period.startTime, 2),
     })),
+    // Filled in by the weather pipeline from its separately cached alerts.
+    alerts: [],
     updatedAt: {
       forecast: forecast.properties.updated,
       hourly: hourly.properties.updated,
+      grid: grid?.properties.updateTime ?? null,
     },
   };
 };
 
-export const getNewYorkWeather = async (): Promise<WeatherPayload> =>
-  getWeatherByCoords(NYC_COORDS.lat, NYC_COORDS.lon, "New York, NY");
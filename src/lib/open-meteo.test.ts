@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import forecastBrooklyn from "@/lib/__fixtures__/open-meteo/forecast-brooklyn.json";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import { BROOKLYN, OPEN_METEO_ENDPOINTS, SCENARIO_NOW } from "@/test/scenarios";
+
+let fake: FakeFetch;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+});
+
+afterEach(() => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("getOpenMeteoWeather", () => {
+  it("drops hours without a temperature instead of charting them as 0°F", async () => {
+    const temperatures: Array<number | null> = [...forecastBrooklyn.hourly.temperature_2m];
+    // 14:00 UTC, the hour after SCENARIO_NOW.
+    temperatures[9] = null;
+    fake = installFakeFetch([
+      {
+        url: OPEN_METEO_ENDPOINTS.forecast,
+        reply: {
+          body: {
+            ...forecastBrooklyn,
+            hourly: { ...forecastBrooklyn.hourly, temperature_2m: temperatures },
+          },
+        },
+      },
+    ]);
+    const { getOpenMeteoWeather } = await import("@/lib/open-meteo");
+    const { hourly } = await getOpenMeteoWeather(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(hourly.map((hour) => hour.time).slice(0, 2)).toEqual([
+      "2026-01-14T13:00:00.000Z",
+      "2026-01-14T15:00:00.000Z",
+    ]);
+    expect(hourly.every((hour) => typeof hour.temperatureF === "number")).toBe(true);
+    expect(hourly).toHaveLength(48);
+  });
+});
@@ -0,0 +1,263 @@
+import { degreesToCardinal, type WeatherPayload } from "@/lib/nws";
+
+const OPEN_METEO_URL = "https://api.open-meteo.com/v1/forecast";
+// Same budget as the NWS forecast products: a fallback that hangs is no better
+// than the provider it stands in for.
+const OPEN_METEO_TIMEOUT_MS = 8000;
+
+const CURRENT_FIELDS = [
+  "temperature_2m",
+  "apparent_temperature",
+  "relative_humidity_2m",
+  "weather_code",
+  "is_day",
+  "wind_speed_10m",
+  "wind_direction_10m",
+  "wind_gusts_10m",
+  "dew_point_2m",
+  "pressure_msl",
+  "visibility",
+];
+
+const HOURLY_FIELDS = [
+  "temperature_2m",
+  "apparent_temperature",
+  "relative_humidity_2m",
+  "precipitation_probability",
+  "precipitation",
+  "snowfall",
+  "cloud_cover",
+  "wind_gusts_10m",
+  "weather_code",
+  "is_day",
+];
+
+const DAILY_FIELDS = [
+  "weather_code",
+  "temperature_2m_max",
+  "temperature_2m_min",
+  "precipitation_sum",
+  "snowfall_sum",
+];
+
+type Series = Array<number | null>;
+
+type OpenMeteoResponse = {
+  timezone: string;
+  current_units?: { visibility?: string };
+  current: {
+    time: number;
+    temperature_2m: number | null;
+    apparent_temperature: number | null;
+    relative_humidity_2m: number | null;
+    weather_code: number | null;
+    is_day: number | null;
+    wind_speed_10m: number | null;
+    wind_direction_10m: number | null;
+    wind_gusts_10m: number | null;
+    dew_point_2m: number | null;
+    pressure_msl: number | null;
+    visibility: number | null;
+  };
+  hourly: {
+    time: number[];
+    temperature_2m: Series;
+    apparent_temperature: Series;
+    relative_humidity_2m: Series;
+    precipitation_probability: Series;
+    precipitation: Series;
+    snowfall: Series;
+    cloud_cover: Series;
+    wind_gusts_10m: Series;
+    weather_code: Series;
+    is_day: Series;
+  };
+  daily: {
+    time: number[];
+    weather_code: Series;
+    temperature_2m_max: Series;
+    temperature_2m_min: Series;
+    precipitation_sum: Series;
+    snowfall_sum: Series;
+  };
+};
+
+// WMO weather interpretation codes, worded like NWS short forecasts so the
+// UI's condition matching keeps working.
+const WEATHER_CODES: Record<number, string> = {
+  0: "Clear",
+  1: "Mostly Clear",
+  2: "Partly Cloudy",
+  3: "Cloudy",
+  45: "Fog",
+  48: "Freezing Fog",
+  51: "Light Drizzle",
+  53: "Drizzle",
+  55: "Heavy Drizzle",
+  56: "Freezing Drizzle",
+  57: "Freezing Drizzle",
+  61: "Light Rain",
+  63: "Rain",
+  65: "Heavy Rain",
+  66: "Freezing Rain",
+  67: "Freezing Rain",
+  71: "Light Snow",
+  73: "Snow",
+  75: "Heavy Snow",
+  77: "Snow Grains",
+  80: "Rain Showers",
+  81: "Rain Showers",
+  82: "Heavy Rain Showers",
+  85: "Snow Showers",
+  86: "Heavy Snow Showers",
+  95: "Thunderstorms",
+  96: "Thunderstorms with Hail",
+  99: "Thunderstorms with Hail",
+};
+
+const describeCode = (code: number | null, isDay = true) => {
+  if (code === null) return "Unknown";
+  if (code === 0 && isDay) return "Sunny";
+  if (code === 1 && isDay) return "Mostly Sunny";
+  return WEATHER_CODES[code] ?? "Unknown";
+};
+
+const round = (value: number | null | undefined, digits = 0) => {
+  if (value === null || value === undefined || Number.isNaN(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const toIso = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+
+const hpaToInHg = (value: number | null) =>
+  value === null ? null : round(value * 0.02953, 2);
+
+const toMiles = (value: number | null, unit?: string) => {
+  if (value === null) return null;
+  return round(unit === "ft" ? value / 5280 : value / 1609.34, 1);
+};
+
+const formatDayName = (date: Date, timeZone: string, index: number) =>
+  index === 0
+    ? "Today"
+    : new Intl.DateTimeFormat("en-US", { timeZone, weekday: "long" }).format(date);
+
+export const getOpenMeteoWeather = async (
+  lat: number,
+  lon: number,
+  overrideName?: string
+): Promise<WeatherPayload> => {
+  const url = new URL(OPEN_METEO_URL);
+  url.searchParams.set("latitude", String(lat));
+  url.searchParams.set("longitude", String(lon));
+  url.searchParams.set("current", CURRENT_FIELDS.join(","));
+  url.searchParams.set("hourly", HOURLY_FIELDS.join(","));
+  url.searchParams.set("daily", DAILY_FIELDS.join(","));
+  url.searchParams.set("temperature_unit", "fahrenheit");
+  url.searchParams.set("wind_speed_unit", "mph");
+  url.searchParams.set("precipitation_unit", "inch");
+  url.searchParams.set("timezone", "auto");
+  url.searchParams.set("timeformat", "unixtime");
+  url.searchParams.set("forecast_days", "7");
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OPEN_METEO_TIMEOUT_MS);
+  let data: OpenMeteoResponse;
+  try {
+    const response = await fetch(url.toString(), {
+      next: { revalidate: 300 },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Open-Meteo request failed: ${response.status}`);
+    }
+    data = (await response.json()) as OpenMeteoResponse;
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+    throw new Error(`Open-Meteo request timed out after ${OPEN_METEO_TIMEOUT_MS}ms`);
+  } finally {
+    clearTimeout(timer);
+  }
+  const { current, hourly, daily } = data;
+
+  // Hourly data starts at local midnight; skip the hours already past.
+  const currentHour = current.time - (current.time % 3600);
+  const firstHour = Math.max(
+    0,
+    hourly.time.findIndex((time) => time >= currentHour)
+  );
+  const hourIndexes = hourly.time.map((_, index) => index).slice(firstHour);
+
+  const fetchedAt = toIso(current.time);
+
+  return {
+    provider: "open-meteo",
+    location: {
+      name: overrideName || `${lat.toFixed(2)}, ${lon.toFixed(2)}`,
+      lat,
+      lon,
+    },
+    current: {
+      temperatureF: round(current.temperature_2m),
+      feelsLikeF: round(current.apparent_temperature),
+      condition: describeCode(current.weather_code, current.is_day !== 0),
+      humidity: round(current.relative_humidity_2m),
+      windSpeedMph: round(current.wind_speed_10m),
+      windGustMph: round(current.wind_gusts_10m),
+      windDirection: degreesToCardinal(current.wind_direction_10m),
+      dewPointF: round(current.dew_point_2m),
+      pressureInHg: hpaToInHg(current.pressure_msl),
+      visibilityMiles: toMiles(current.visibility, data.current_units?.visibility),
+      observedAt: fetchedAt,
+      // Open-Meteo's "current" block is model output, not a station report.
+      source: "forecast",
+      station: null,
+    },
+    // Daily times are local midnight; noon keeps the weekday right whichever
+    // zone the reader formats it in.
+    daily: daily.time.map((time, index) => {
+      const date = new Date((time + 12 * 3600) * 1000);
+      return {
+        date: date.toISOString(),
+        name: formatDayName(date, data.timezone, index),
+        highF: round(daily.temperature_2m_max[index]),
+        lowF: round(daily.temperature_2m_min[index]),
+        summary: describeCode(daily.weather_code[index]),
+        icon: "",
+        precipitationIn: round(daily.precipitation_sum[index], 2),
+        snowfallIn: round(daily.snowfall_sum[index], 1),
+      };
+    }),
+    // Hours without a temperature are dropped rather than charted as zero.
+    hourly: hourIndexes
+      .map((index) => ({
+        time: toIso(hourly.time[index]),
+        temperatureF: round(hourly.temperature_2m[index]),
+        summary: describeCode(hourly.weather_code[index], hourly.is_day[index] !== 0),
+        icon: "",
+        precipChance: round(hourly.precipitation_probability[index]),
+        humidity: round(hourly.relative_humidity_2m[index]),
+        feelsLikeF: round(hourly.apparent_temperature[index]),
+        windChillF: null,
+        skyCover: round(hourly.cloud_cover[index]),
+        windGustMph: round(hourly.wind_gusts_10m[index]),
+        thunderChance: null,
+        precipitationIn: round(hourly.precipitation[index], 2),
+        snowfallIn: round(hourly.snowfall[index], 1),
+        iceIn: null,
+      }))
+      .filter(
+        (hour): hour is typeof hour & { temperatureF: number } =>
+          hour.temperatureF !== null
+      )
+      .slice(0, 48),
+    // Open-Meteo does not publish weather alerts.
+    alerts: [],
+    updatedAt: {
+      forecast: fetchedAt,
+      hourly: fetchedAt,
+      grid: null,
+    },
+  };
+};
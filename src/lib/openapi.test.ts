@@ -0,0 +1,28 @@
+// @vitest-environment node
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { OUTPUT_PATH, renderSchemas } from "../../scripts/generate-openapi.mjs";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+const collectRefs = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(collectRefs);
+  if (!value || typeof value !== "object") return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === "$ref" && typeof child === "string" ? [child] : collectRefs(child)
+  );
+};
+
+describe("OpenAPI document", () => {
+  it("matches the current TypeScript types (run `npm run openapi`)", () => {
+    expect(readFileSync(OUTPUT_PATH, "utf-8")).toBe(renderSchemas());
+  }, 30_000);
+
+  it("only references schemas it defines", () => {
+    const document = buildOpenApiDocument("https://skyview.test");
+    const defined = Object.keys(document.components.schemas);
+    collectRefs(document).forEach((ref) => {
+      expect(defined).toContain(ref.replace("#/components/schemas/", ""));
+    });
+    expect(document.servers[0].url).toBe("https://skyview.test/api/v1");
+  });
+});
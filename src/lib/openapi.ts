@@ -0,0 +1,132 @@
+import schemas from "@/lib/openapi-schemas.generated.json";
+import { API_KEY_HEADER } from "@/lib/api-keys";
+import { COORDINATE_RANGES } from "@/lib/api-v1";
+import { UNIT_OPTIONS } from "@/lib/units";
+
+export const API_VERSION = "1.0.0";
+
+const ref = (name: keyof typeof schemas) => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const integerHeader = (description: string) => ({
+  description,
+  schema: { type: "integer" },
+});
+
+// Sent on every /weather response once the request has been counted.
+const RATE_LIMIT_HEADERS = {
+  "RateLimit-Limit": integerHeader("Requests allowed per minute."),
+  "RateLimit-Remaining": integerHeader("Requests left in the current window."),
+  "RateLimit-Reset": integerHeader("Seconds until the allowance is full again."),
+  "RateLimit-Policy": {
+    description: 'The quota, e.g. "30;w=60".',
+    schema: { type: "string" },
+  },
+};
+
+const jsonResponse = (
+  description: string,
+  schema: keyof typeof schemas,
+  headers?: Record<string, unknown>
+) => ({
+  description,
+  ...(headers ? { headers } : {}),
+  content: { "application/json": { schema: ref(schema) } },
+});
+
+const unitOverrides = Object.entries(UNIT_OPTIONS)
+  .map(([measure, units]) => `${measure}:${units.join("|")}`)
+  .join(", ");
+
+// Paths and parameters are written out here; every response body comes from
+// the generated component schemas.
+export const buildOpenApiDocument = (baseUrl: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "SkyView Weather API",
+    version: API_VERSION,
+    description:
+      "Forecasts, current conditions and alerts from the National Weather Service, with Open-Meteo outside NWS coverage. Values are in US units unless `units` is given.",
+  },
+  servers: [{ url: `${baseUrl}/api/v1` }],
+  paths: {
+    "/weather": {
+      get: {
+        operationId: "getWeather",
+        summary: "Weather for a coordinate",
+        description:
+          "Works without a key at a lower per-IP rate limit; an API key raises it.",
+        security: [{}, { apiKey: [] }],
+        parameters: [
+          {
+            name: "lat",
+            in: "query",
+            required: true,
+            schema: {
+              type: "number",
+              minimum: COORDINATE_RANGES.lat.min,
+              maximum: COORDINATE_RANGES.lat.max,
+            },
+          },
+          {
+            name: "lon",
+            in: "query",
+            required: true,
+            schema: {
+              type: "number",
+              minimum: COORDINATE_RANGES.lon.min,
+              maximum: COORDINATE_RANGES.lon.max,
+            },
+          },
+          {
+            name: "name",
+            in: "query",
+            required: false,
+            description: "Display name to use for the location.",
+            schema: { type: "string" },
+          },
+          {
+            name: "units",
+            in: "query",
+            required: false,
+            description: `"imperial", "metric", or either followed by overrides (${unitOverrides}), e.g. "metric,speed:mph". Adds a \`converted\` block.`,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": jsonResponse(
+            "Weather for the coordinate",
+            "WeatherResponse",
+            RATE_LIMIT_HEADERS
+          ),
+          "400": jsonResponse("Missing, malformed or unknown query parameters", "ApiError"),
+          "401": jsonResponse("Unknown or revoked API key", "ApiError"),
+          "429": jsonResponse("Rate limit exceeded", "ApiError", {
+            ...RATE_LIMIT_HEADERS,
+            "Retry-After": integerHeader("Seconds until the next request is allowed."),
+          }),
+          "502": jsonResponse("No weather provider could answer", "ApiError"),
+        },
+      },
+    },
+    "/openapi.json": {
+      get: {
+        operationId: "getOpenApiDocument",
+        summary: "This document",
+        responses: {
+          "200": {
+            description: "OpenAPI 3.1 document",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas,
+    securitySchemes: {
+      apiKey: { type: "apiKey", in: "header", name: API_KEY_HEADER },
+    },
+  },
+});
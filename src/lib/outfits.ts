@@ -0,0 +1,144 @@
+import type { WeatherPayload } from "@/lib/nws";
+
+export type OutfitLook = {
+  name: string;
+  vibe: string;
+  layers: string[];
+  extras: string[];
+  palette: string[];
+};
+
+// Shared by the Outfit Studio and the morning email so both suggest the same
+// looks for the same conditions.
+export const getOutfitLooks = (
+  current: Pick<
+    WeatherPayload["current"],
+    "feelsLikeF" | "temperatureF" | "condition" | "windSpeedMph"
+  >
+): OutfitLook[] => {
+  const feelsLike = current.feelsLikeF ?? current.temperatureF ?? 70;
+  const condition = current.condition.toLowerCase();
+  const windy = (current.windSpeedMph ?? 0) >= 18;
+  const wet = condition.includes("rain") || condition.includes("shower");
+  const snowy = condition.includes("snow") || condition.includes("sleet");
+  const stormy = condition.includes("storm") || condition.includes("thunder");
+
+  const looks: OutfitLook[] = [];
+
+  if (feelsLike >= 85) {
+    looks.push(
+      {
+        name: "Heatwave Minimal",
+        vibe: "Lightweight + breathable",
+        layers: ["Linen tee", "Pleated shorts", "Sandal slip-ons"],
+        extras: ["SPF 50", "Polarized shades", "Cooling mist"],
+        palette: ["Sand", "Seafoam", "White"],
+      },
+      {
+        name: "City Swim",
+        vibe: "Poolside ready",
+        layers: ["Tank or bandeau", "Relaxed button-down", "Lightweight skirt"],
+        extras: ["Waterproof tote", "Hair clip", "Hydration bottle"],
+        palette: ["Coral", "Sky", "Vanilla"],
+      }
+    );
+  } else if (feelsLike >= 65) {
+    looks.push(
+      {
+        name: "Golden Hour",
+        vibe: "Soft layers",
+        layers: ["Knit tee", "Wide-leg trousers", "Low-profile sneakers"],
+        extras: ["Light scarf", "Crossbody", "Lip balm"],
+        palette: ["Oat", "Terracotta", "Soft navy"],
+      },
+      {
+        name: "Weekend Air",
+        vibe: "Easy + fresh",
+        layers: ["Oversized shirt", "Bike shorts", "Crew socks"],
+        extras: ["Bucket hat", "Mini tote", "Gloss"],
+        palette: ["Cloud", "Mint", "Graphite"],
+      }
+    );
+  } else if (feelsLike >= 45) {
+    looks.push(
+      {
+        name: "Crisp Layer",
+        vibe: "Clean + structured",
+        layers: ["Mock-neck top", "Trench or chore jacket", "Straight denim"],
+        extras: ["Leather belt", "Medium tote", "Light beanie"],
+        palette: ["Stone", "Moss", "Ink"],
+      },
+      {
+        name: "Studio Walk",
+        vibe: "Sport luxe",
+        layers: ["Cropped hoodie", "Cargo skirt", "High-top sneakers"],
+        extras: ["Sleek cap", "Earbuds", "Thermal flask"],
+        palette: ["Pebble", "Pine", "Black"],
+      }
+    );
+  } else if (feelsLike >= 25) {
+    looks.push(
+      {
+        name: "Cold Front",
+        vibe: "Warm but sleek",
+        layers: ["Thermal base", "Puffer coat", "Wool trousers"],
+        extras: ["Cashmere scarf", "Touchscreen gloves", "Hand cream"],
+        palette: ["Charcoal", "Ice", "Cobalt"],
+      },
+      {
+        name: "Night Shift",
+        vibe: "Moody cozy",
+        layers: ["Ribbed turtleneck", "Longline coat", "Chunky boots"],
+        extras: ["Beanie", "Tote", "Layered rings"],
+        palette: ["Onyx", "Smoke", "Plum"],
+      }
+    );
+  } else {
+    looks.push(
+      {
+        name: "Frost Mode",
+        vibe: "Insulated + bold",
+        layers: ["Thermal set", "Down parka", "Snow boots"],
+        extras: ["Neck gaiter", "Heat packs", "Insulated bottle"],
+        palette: ["Midnight", "Arctic blue", "Steel"],
+      },
+      {
+        name: "Polar Luxe",
+        vibe: "Luxury warmth",
+        layers: ["Wool base", "Shearling jacket", "Fleece-lined leggings"],
+        extras: ["Ear warmers", "Leather gloves", "Cabin socks"],
+        palette: ["Espresso", "Ivory", "Deep teal"],
+      }
+    );
+  }
+
+  if (wet || stormy || snowy) {
+    looks.push({
+      name: snowy ? "Snow Drift" : "Rain Shield",
+      vibe: "Weatherproof",
+      layers: [
+        "Waterproof shell",
+        "Grip-sole boots",
+        "Quick-dry layers",
+      ],
+      extras: [
+        snowy ? "Thermal hat" : "Compact umbrella",
+        snowy ? "Snow gaiters" : "Waterproof tote",
+        "Reflective detail",
+      ],
+      palette: ["Slate", "Midnight", "Neon accent"],
+    });
+  }
+
+  if (windy) {
+    looks.push({
+      name: "Wind Runner",
+      vibe: "Secure + tucked",
+      layers: ["Windbreaker", "Slim jogger", "High-top sneakers"],
+      extras: ["Hair ties", "Zip pockets", "Lightweight gloves"],
+      palette: ["Carbon", "Olive", "Sand"],
+    });
+  }
+
+  return looks;
+};
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTokenBucketLimiter, rateLimitHeaders } from "@/lib/rate-limit";
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-14T13:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createTokenBucketLimiter", () => {
+  it("allows a burst up to the limit, then refuses", () => {
+    const limiter = createTokenBucketLimiter();
+    const results = Array.from({ length: 4 }, () => limiter.take("ip:a", 3));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterSeconds).toBe(20);
+    expect(results[3].resetSeconds).toBe(60);
+  });
+
+  it("refills continuously at the per-minute rate", () => {
+    const limiter = createTokenBucketLimiter();
+    for (let i = 0; i < 6; i += 1) limiter.take("key:a", 6);
+    expect(limiter.take("key:a", 6).allowed).toBe(false);
+
+    vi.advanceTimersByTime(10_000);
+    expect(limiter.take("key:a", 6).allowed).toBe(true);
+    expect(limiter.take("key:a", 6).allowed).toBe(false);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(limiter.take("key:a", 6).remaining).toBe(5);
+  });
+
+  it("keeps buckets separate and evicts the least recently used", () => {
+    const limiter = createTokenBucketLimiter(2);
+    limiter.take("ip:a", 1);
+    limiter.take("ip:b", 1);
+    expect(limiter.take("ip:a", 1).allowed).toBe(false);
+
+    // "b" is now the oldest; a third bucket pushes it out and it starts full.
+    limiter.take("ip:c", 1);
+    expect(limiter.take("ip:b", 1).allowed).toBe(true);
+    expect(limiter.take("ip:c", 1).allowed).toBe(false);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("adds Retry-After only once limited", () => {
+    const limiter = createTokenBucketLimiter();
+    const allowed = rateLimitHeaders(limiter.take("ip:a", 1));
+    const limited = rateLimitHeaders(limiter.take("ip:a", 1));
+
+    expect(allowed).toEqual({
+      "RateLimit-Limit": "1",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": "60",
+      "RateLimit-Policy": "1;w=60",
+    });
+    expect(limited["Retry-After"]).toBe("60");
+  });
+});
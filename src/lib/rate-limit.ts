@@ -0,0 +1,69 @@
+// Token buckets held in memory, so each instance enforces its own share; a
+// client spread across instances gets proportionally more. Good enough to keep
+// one noisy caller from exhausting our NWS allowance.
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again.
+  resetSeconds: number;
+  // Seconds until the next request would be allowed; 0 when allowed.
+  retryAfterSeconds: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const WINDOW_MS = 60 * 1000;
+const DEFAULT_MAX_BUCKETS = 10_000;
+
+// Each bucket holds a minute's worth of requests and refills continuously, so
+// a client may burst up to its limit and then settles to the per-minute rate.
+export const createTokenBucketLimiter = (maxBuckets = DEFAULT_MAX_BUCKETS) => {
+  const buckets = new Map<string, Bucket>();
+
+  const take = (key: string, perMinute: number): RateLimitResult => {
+    const now = Date.now();
+    const refillPerMs = perMinute / WINDOW_MS;
+    const bucket = buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+    bucket.tokens = Math.min(
+      perMinute,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+    );
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) bucket.tokens -= 1;
+
+    // Re-inserting keeps Map order least-recently-used first; an evicted
+    // bucket simply starts full next time.
+    buckets.delete(key);
+    buckets.set(key, bucket);
+    while (buckets.size > maxBuckets) {
+      const oldest = buckets.keys().next().value;
+      if (oldest === undefined) break;
+      buckets.delete(oldest);
+    }
+
+    const secondsUntil = (tokens: number) =>
+      Math.max(0, Math.ceil(tokens / refillPerMs / 1000));
+    return {
+      allowed,
+      limit: perMinute,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: secondsUntil(perMinute - bucket.tokens),
+      retryAfterSeconds: allowed ? 0 : secondsUntil(1 - bucket.tokens),
+    };
+  };
+
+  return { take };
+};
+
+// The IETF RateLimit header fields, plus Retry-After once limited.
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> => ({
+  "RateLimit-Limit": String(result.limit),
+  "RateLimit-Remaining": String(result.remaining),
+  "RateLimit-Reset": String(result.resetSeconds),
+  "RateLimit-Policy": `${result.limit};w=${WINDOW_MS / 1000}`,
+  ...(result.allowed ? {} : { "Retry-After": String(result.retryAfterSeconds) }),
+});
@@ -0,0 +1,156 @@
+import crypto from "crypto";
+
+type RawRecord = Record<string, unknown>;
+
+export type SubscriberMigration = {
+  version: number;
+  name: string;
+  // Rewrites the records of a JSON store document.
+  json: (records: unknown[]) => unknown[];
+  // Statements run against the SQLite schema, in order.
+  sqlite: string[];
+};
+
+const generateToken = () => crypto.randomBytes(16).toString("hex");
+
+const asRecords = (records: unknown[]) =>
+  records.filter(
+    (entry): entry is RawRecord => typeof entry === "object" && entry !== null
+  );
+
+// Defaults are written out literally: a migration describes the data as it was
+// at that version, so it must not follow later changes to runtime defaults.
+export const SUBSCRIBER_MIGRATIONS: SubscriberMigration[] = [
+  {
+    version: 1,
+    name: "subscriber records",
+    json: (records) =>
+      records.map((entry) =>
+        typeof entry === "string"
+          ? {
+              email: entry.trim().toLowerCase(),
+              unit: "F",
+              timezone: "America/New_York",
+              token: generateToken(),
+              subscribedAt: new Date().toISOString(),
+            }
+          : entry
+      ),
+    sqlite: [
+      `CREATE TABLE subscribers (
+        email TEXT PRIMARY KEY,
+        location TEXT,
+        unit TEXT NOT NULL DEFAULT 'F',
+        timezone TEXT NOT NULL DEFAULT 'America/New_York',
+        token TEXT NOT NULL UNIQUE,
+        subscribed_at TEXT NOT NULL,
+        last_sent_on TEXT
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: "subscriber defaults",
+    json: (records) =>
+      asRecords(records).map((entry) => ({
+        ...entry,
+        email: String(entry.email ?? "").trim().toLowerCase(),
+        unit: entry.unit ?? "F",
+        timezone: entry.timezone ?? "America/New_York",
+        token: entry.token || generateToken(),
+        subscribedAt: entry.subscribedAt ?? new Date().toISOString(),
+      })),
+    sqlite: [],
+  },
+  {
+    version: 3,
+    name: "alert preferences",
+    json: (records) =>
+      asRecords(records).map((entry) => ({
+        ...entry,
+        minAlertSeverity: entry.minAlertSeverity ?? "Severe",
+        sentAlertIds: Array.isArray(entry.sentAlertIds) ? entry.sentAlertIds : [],
+      })),
+    sqlite: [
+      "ALTER TABLE subscribers ADD COLUMN min_alert_severity TEXT NOT NULL DEFAULT 'Severe'",
+      "ALTER TABLE subscribers ADD COLUMN sent_alert_ids TEXT NOT NULL DEFAULT '[]'",
+    ],
+  },
+  {
+    version: 4,
+    name: "double opt-in",
+    // Everyone subscribed before confirmation existed is grandfathered in.
+    json: (records) =>
+      asRecords(records).map((entry) => ({
+        ...entry,
+        status: entry.status ?? "active",
+      })),
+    sqlite: [
+      "ALTER TABLE subscribers ADD COLUMN status TEXT NOT NULL DEFAULT 'active'",
+      "ALTER TABLE subscribers ADD COLUMN confirm_token TEXT",
+      "ALTER TABLE subscribers ADD COLUMN confirm_sent_at TEXT",
+      "ALTER TABLE subscribers ADD COLUMN confirmed_at TEXT",
+      "CREATE UNIQUE INDEX subscribers_confirm_token ON subscribers (confirm_token)",
+    ],
+  },
+  {
+    version: 5,
+    name: "delivery preferences",
+    json: (records) =>
+      asRecords(records).map((entry) => ({
+        ...entry,
+        deliveryHour: entry.deliveryHour ?? 7,
+        paused: entry.paused ?? false,
+      })),
+    sqlite: [
+      "ALTER TABLE subscribers ADD COLUMN delivery_hour INTEGER NOT NULL DEFAULT 7",
+      "ALTER TABLE subscribers ADD COLUMN paused INTEGER NOT NULL DEFAULT 0",
+    ],
+  },
+  {
+    version: 6,
+    name: "delivery days",
+    json: (records) =>
+      asRecords(records).map((entry) => ({
+        ...entry,
+        deliveryDays: Array.isArray(entry.deliveryDays)
+          ? entry.deliveryDays
+          : [0, 1, 2, 3, 4, 5, 6],
+      })),
+    sqlite: [
+      "ALTER TABLE subscribers ADD COLUMN delivery_days TEXT NOT NULL DEFAULT '[0,1,2,3,4,5,6]'",
+    ],
+  },
+  {
+    version: 7,
+    name: "unit systems",
+    // A Celsius subscriber keeps every other measure in US units, exactly as
+    // their emails looked before.
+    json: (records) =>
+      asRecords(records).map(({ unit, ...entry }) => ({
+        ...entry,
+        units:
+          entry.units ??
+          (unit === "C"
+            ? {
+                temperature: "C",
+                speed: "mph",
+                distance: "mi",
+                pressure: "inHg",
+                precipitation: "in",
+              }
+            : "imperial"),
+      })),
+    sqlite: [
+      "ALTER TABLE subscribers ADD COLUMN units TEXT NOT NULL DEFAULT 'imperial'",
+      "UPDATE subscribers SET units = 'temperature:C,speed:mph,distance:mi,pressure:inHg,precipitation:in' WHERE unit = 'C'",
+      "ALTER TABLE subscribers DROP COLUMN unit",
+    ],
+  },
+];
+
+export const LATEST_SUBSCRIBER_VERSION =
+  SUBSCRIBER_MIGRATIONS[SUBSCRIBER_MIGRATIONS.length - 1].version;
+
+export const pendingMigrations = (fromVersion: number) =>
+  SUBSCRIBER_MIGRATIONS.filter((migration) => migration.version > fromVersion);
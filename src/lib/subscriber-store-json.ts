@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import type { Subscriber } from "@/lib/subscribers";
+import type { SubscriberStore } from "@/lib/subscriber-store";
+import { createFileMutex, writeFileAtomic } from "@/lib/file-lock";
+import {
+  LATEST_SUBSCRIBER_VERSION,
+  pendingMigrations,
+} from "@/lib/subscriber-migrations";
+
+type StoreDocument = {
+  version: number;
+  subscribers: Subscriber[];
+};
+
+// Parses both the current `{ version, subscribers }` document and the legacy
+// bare array, which is treated as version 0.
+const parseDocument = (contents: string) => {
+  const parsed = JSON.parse(contents) as unknown;
+  if (Array.isArray(parsed)) return { version: 0, records: parsed as unknown[] };
+  if (parsed && typeof parsed === "object") {
+    const { version, subscribers } = parsed as Partial<StoreDocument>;
+    return {
+      version: typeof version === "number" ? version : 0,
+      records: Array.isArray(subscribers) ? (subscribers as unknown[]) : [],
+    };
+  }
+  return { version: 0, records: [] as unknown[] };
+};
+
+export const createJsonSubscriberStore = (filePath: string): SubscriberStore => {
+  const { exclusive } = createFileMutex(filePath);
+
+  const writeAll = async (subscribers: Subscriber[]) => {
+    const document: StoreDocument = {
+      version: LATEST_SUBSCRIBER_VERSION,
+      subscribers,
+    };
+    await writeFileAtomic(filePath, JSON.stringify(document, null, 2));
+  };
+
+  const readAll = async (): Promise<Subscriber[]> => {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return [];
+    }
+
+    const { version, records } = parseDocument(contents);
+    const migrations = pendingMigrations(version);
+    if (migrations.length === 0) return records as Subscriber[];
+
+    const migrated = migrations.reduce(
+      (current, migration) => migration.json(current),
+      records
+    ) as Subscriber[];
+    await writeAll(migrated);
+    return migrated;
+  };
+
+  return {
+    list: () => exclusive(readAll),
+
+    findByEmail: (email) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        return subscribers.find((entry) => entry.email === email) ?? null;
+      }),
+
+    findByToken: (token) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        return subscribers.find((entry) => entry.token === token) ?? null;
+      }),
+
+    findByConfirmToken: (token) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        return subscribers.find((entry) => entry.confirmToken === token) ?? null;
+      }),
+
+    insert: (subscriber) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        if (subscribers.some((entry) => entry.email === subscriber.email)) {
+          return false;
+        }
+        await writeAll([...subscribers, subscriber]);
+        return true;
+      }),
+
+    update: (updates) =>
+      exclusive(async () => {
+        const changesByEmail = new Map(
+          updates.map(({ email, changes }) => [email, changes])
+        );
+        const subscribers = await readAll();
+        let updated = 0;
+        const next = subscribers.map((entry) => {
+          const changes = changesByEmail.get(entry.email);
+          if (!changes) return entry;
+          updated += 1;
+          return { ...entry, ...changes, email: entry.email };
+        });
+        if (updated > 0) await writeAll(next);
+        return updated;
+      }),
+
+    removeByToken: (token) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        const filtered = subscribers.filter((entry) => entry.token !== token);
+        if (filtered.length === subscribers.length) return false;
+        await writeAll(filtered);
+        return true;
+      }),
+
+    removeByEmails: (emails) =>
+      exclusive(async () => {
+        const subscribers = await readAll();
+        const filtered = subscribers.filter(
+          (entry) => !emails.includes(entry.email)
+        );
+        const removed = subscribers.length - filtered.length;
+        if (removed > 0) await writeAll(filtered);
+        return removed;
+      }),
+  };
+};
@@ -0,0 +1,183 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { Subscriber } from "@/lib/subscribers";
+import type { SubscriberStore } from "@/lib/subscriber-store";
+import { pendingMigrations } from "@/lib/subscriber-migrations";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  formatUnitSystem,
+  parseUnitSystem,
+} from "@/lib/units";
+
+type SubscriberRow = {
+  email: string;
+  location: string | null;
+  units: string;
+  timezone: string;
+  token: string;
+  subscribed_at: string;
+  last_sent_on: string | null;
+  min_alert_severity: string;
+  sent_alert_ids: string;
+  status: string;
+  confirm_token: string | null;
+  confirm_sent_at: string | null;
+  confirmed_at: string | null;
+  delivery_hour: number;
+  paused: number;
+  delivery_days: string;
+};
+
+const COLUMNS = [
+  "email",
+  "location",
+  "units",
+  "timezone",
+  "token",
+  "subscribed_at",
+  "last_sent_on",
+  "min_alert_severity",
+  "sent_alert_ids",
+  "status",
+  "confirm_token",
+  "confirm_sent_at",
+  "confirmed_at",
+  "delivery_hour",
+  "paused",
+  "delivery_days",
+] as const;
+
+const rowToSubscriber = (row: SubscriberRow): Subscriber => ({
+  email: row.email,
+  location: row.location ? JSON.parse(row.location) : undefined,
+  units: parseUnitSystem(row.units) ?? DEFAULT_UNIT_SYSTEM,
+  timezone: row.timezone,
+  minAlertSeverity: row.min_alert_severity as Subscriber["minAlertSeverity"],
+  token: row.token,
+  subscribedAt: row.subscribed_at,
+  lastSentOn: row.last_sent_on ?? undefined,
+  sentAlertIds: JSON.parse(row.sent_alert_ids) as string[],
+  status: row.status as Subscriber["status"],
+  confirmToken: row.confirm_token ?? undefined,
+  confirmSentAt: row.confirm_sent_at ?? undefined,
+  confirmedAt: row.confirmed_at ?? undefined,
+  deliveryHour: row.delivery_hour,
+  paused: row.paused === 1,
+  deliveryDays: JSON.parse(row.delivery_days) as number[],
+});
+
+const subscriberToRow = (subscriber: Subscriber): SubscriberRow => ({
+  email: subscriber.email,
+  location: subscriber.location ? JSON.stringify(subscriber.location) : null,
+  units: formatUnitSystem(subscriber.units),
+  timezone: subscriber.timezone,
+  token: subscriber.token,
+  subscribed_at: subscriber.subscribedAt,
+  last_sent_on: subscriber.lastSentOn ?? null,
+  min_alert_severity: subscriber.minAlertSeverity,
+  sent_alert_ids: JSON.stringify(subscriber.sentAlertIds),
+  status: subscriber.status,
+  confirm_token: subscriber.confirmToken ?? null,
+  confirm_sent_at: subscriber.confirmSentAt ?? null,
+  confirmed_at: subscriber.confirmedAt ?? null,
+  delivery_hour: subscriber.deliveryHour,
+  paused: subscriber.paused ? 1 : 0,
+  delivery_days: JSON.stringify(subscriber.deliveryDays),
+});
+
+const migrate = (db: Database.Database) => {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  const migrations = pendingMigrations(current);
+  if (migrations.length === 0) return;
+
+  db.transaction(() => {
+    migrations.forEach((migration) => {
+      migration.sqlite.forEach((statement) => db.exec(statement));
+      db.pragma(`user_version = ${migration.version}`);
+    });
+  }).immediate();
+};
+
+export const createSqliteSubscriberStore = (dbPath: string): SubscriberStore => {
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  migrate(db);
+
+  const selectAll = db.prepare<[], SubscriberRow>(
+    "SELECT * FROM subscribers ORDER BY subscribed_at"
+  );
+  const selectByEmail = db.prepare<[string], SubscriberRow>(
+    "SELECT * FROM subscribers WHERE email = ?"
+  );
+  const selectByToken = db.prepare<[string], SubscriberRow>(
+    "SELECT * FROM subscribers WHERE token = ?"
+  );
+  const selectByConfirmToken = db.prepare<[string], SubscriberRow>(
+    "SELECT * FROM subscribers WHERE confirm_token = ?"
+  );
+  const insertRow = db.prepare<SubscriberRow>(
+    `INSERT OR IGNORE INTO subscribers (${COLUMNS.join(", ")})
+     VALUES (${COLUMNS.map((column) => `@${column}`).join(", ")})`
+  );
+  const updateRow = db.prepare<SubscriberRow>(
+    `UPDATE subscribers
+     SET ${COLUMNS.filter((column) => column !== "email")
+       .map((column) => `${column} = @${column}`)
+       .join(", ")}
+     WHERE email = @email`
+  );
+  const deleteByToken = db.prepare<[string]>(
+    "DELETE FROM subscribers WHERE token = ?"
+  );
+  const deleteByEmail = db.prepare<[string]>(
+    "DELETE FROM subscribers WHERE email = ?"
+  );
+
+  const applyUpdates = db.transaction(
+    (updates: Parameters<SubscriberStore["update"]>[0]) => {
+      let updated = 0;
+      updates.forEach(({ email, changes }) => {
+        const row = selectByEmail.get(email);
+        if (!row) return;
+        const next = { ...rowToSubscriber(row), ...changes, email };
+        updated += updateRow.run(subscriberToRow(next)).changes;
+      });
+      return updated;
+    }
+  );
+
+  const removeEmails = db.transaction((emails: string[]) =>
+    emails.reduce((total, email) => total + deleteByEmail.run(email).changes, 0)
+  );
+
+  return {
+    list: async () => selectAll.all().map(rowToSubscriber),
+
+    findByEmail: async (email) => {
+      const row = selectByEmail.get(email);
+      return row ? rowToSubscriber(row) : null;
+    },
+
+    findByToken: async (token) => {
+      const row = selectByToken.get(token);
+      return row ? rowToSubscriber(row) : null;
+    },
+
+    findByConfirmToken: async (token) => {
+      const row = selectByConfirmToken.get(token);
+      return row ? rowToSubscriber(row) : null;
+    },
+
+    insert: async (subscriber) =>
+      insertRow.run(subscriberToRow(subscriber)).changes > 0,
+
+    update: async (updates) => applyUpdates.immediate(updates),
+
+    removeByToken: async (token) => deleteByToken.run(token).changes > 0,
+
+    removeByEmails: async (emails) => removeEmails.immediate(emails),
+  };
+};
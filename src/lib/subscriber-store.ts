@@ -0,0 +1,58 @@
+import path from "path";
+import type { Subscriber } from "@/lib/subscribers";
+
+export type SubscriberChanges = Partial<Omit<Subscriber, "email">>;
+
+export interface SubscriberStore {
+  list(): Promise<Subscriber[]>;
+  findByEmail(email: string): Promise<Subscriber | null>;
+  findByToken(token: string): Promise<Subscriber | null>;
+  findByConfirmToken(token: string): Promise<Subscriber | null>;
+  // Returns false when a subscriber with the same email already exists.
+  insert(subscriber: Subscriber): Promise<boolean>;
+  // Merges changes into existing records only; unknown emails are skipped so a
+  // concurrent unsubscribe is never undone. Returns the number updated.
+  update(
+    updates: Array<{ email: string; changes: SubscriberChanges }>
+  ): Promise<number>;
+  removeByToken(token: string): Promise<boolean>;
+  removeByEmails(emails: string[]): Promise<number>;
+}
+
+export type SubscriberStoreKind = "json" | "sqlite";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+export const resolveStoreKind = (): SubscriberStoreKind =>
+  process.env.SUBSCRIBER_STORE === "sqlite" ? "sqlite" : "json";
+
+let storePromise: Promise<SubscriberStore> | null = null;
+
+const createStore = async (): Promise<SubscriberStore> => {
+  if (resolveStoreKind() === "sqlite") {
+    // Loaded lazily so the native module is only required when selected.
+    const { createSqliteSubscriberStore } = await import(
+      "@/lib/subscriber-store-sqlite"
+    );
+    return createSqliteSubscriberStore(
+      process.env.SUBSCRIBER_DB_PATH ?? path.join(DATA_DIR, "subscribers.db")
+    );
+  }
+
+  const { createJsonSubscriberStore } = await import(
+    "@/lib/subscriber-store-json"
+  );
+  return createJsonSubscriberStore(
+    process.env.SUBSCRIBER_FILE_PATH ?? path.join(DATA_DIR, "subscribers.json")
+  );
+};
+
+export const getSubscriberStore = () => {
+  if (!storePromise) {
+    storePromise = createStore().catch((error) => {
+      storePromise = null;
+      throw error;
+    });
+  }
+  return storePromise;
+};
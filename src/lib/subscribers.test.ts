@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_LOCATION_NAME_LENGTH,
+  normalizeLocationName,
+} from "@/lib/subscribers";
+
+describe("normalizeLocationName", () => {
+  it("accepts real place names", () => {
+    [
+      "New York, NY",
+      "St. John's, Newfoundland and Labrador, Canada",
+      "Winston-Salem, North Carolina",
+      "Coeur d’Alene (ID)",
+      "São Paulo, Brazil",
+      "Zürich",
+    ].forEach((name) => {
+      expect(normalizeLocationName(name)).toBe(name);
+    });
+  });
+
+  it("collapses whitespace", () => {
+    expect(normalizeLocationName("  Portland,\n  OR ")).toBe("Portland, OR");
+  });
+
+  it("rejects markup and other hostile input", () => {
+    [
+      "<script>alert(1)</script>",
+      '"><img src=x onerror=alert(1)>',
+      "Boston <b>bold</b>",
+      "javascript:alert(1)",
+      "Phish{{link}}",
+      "Brooklyn\u0000",
+    ].forEach((name) => {
+      expect(normalizeLocationName(name)).toBeNull();
+    });
+  });
+
+  it("rejects empty, non-string and overlong names", () => {
+    expect(normalizeLocationName("   ")).toBeNull();
+    expect(normalizeLocationName(42)).toBeNull();
+    expect(normalizeLocationName("a".repeat(MAX_LOCATION_NAME_LENGTH))).not.toBeNull();
+    expect(
+      normalizeLocationName("a".repeat(MAX_LOCATION_NAME_LENGTH + 1))
+    ).toBeNull();
+  });
+});
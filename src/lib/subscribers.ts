@@ -1,13 +1,32 @@
-import { promises as fs } from "fs";
-import path from "path";
 import crypto from "crypto";
-
-const DATA_DIR = path.join(process.cwd(), "data");
-const FILE_PATH = path.join(DATA_DIR, "subscribers.json");
+import type { AlertSeverity } from "@/lib/nws";
+import { ALL_DELIVERY_DAYS } from "@/lib/delivery-schedule";
+import { DEFAULT_UNIT_SYSTEM, type UnitSystem } from "@/lib/units";
+import {
+  getSubscriberStore,
+  type SubscriberChanges,
+} from "@/lib/subscriber-store";
 
 const normalizeEmail = (email: string) => email.trim().toLowerCase();
 const DEFAULT_TIMEZONE = "America/New_York";
-const DEFAULT_UNIT = "F" as const;
+const DEFAULT_MIN_ALERT_SEVERITY = "Severe" as const;
+const DEFAULT_PENDING_TTL_HOURS = 48;
+// At most one confirmation email per address in this window, so the form
+// cannot be used to flood someone's inbox.
+const CONFIRM_RESEND_INTERVAL_MS = 10 * 60 * 1000;
+export const DEFAULT_DELIVERY_HOUR = 7;
+
+export type AlertThreshold = Exclude<AlertSeverity, "Unknown">;
+
+export const ALERT_THRESHOLDS: AlertThreshold[] = [
+  "Minor",
+  "Moderate",
+  "Severe",
+  "Extreme",
+];
+
+export const isAlertThreshold = (value: unknown): value is AlertThreshold =>
+  ALERT_THRESHOLDS.includes(value as AlertThreshold);
 
 export type Subscriber = {
   email: string;
@@ -16,72 +35,75 @@ export type Subscriber = {
     lat: number;
     lon: number;
   };
-  unit: "F" | "C";
+  units: UnitSystem;
   timezone: string;
+  minAlertSeverity: AlertThreshold;
   token: string;
   subscribedAt: string;
   lastSentOn?: string;
+  sentAlertIds: string[];
+  status: "pending" | "active";
+  confirmToken?: string;
+  confirmSentAt?: string;
+  confirmedAt?: string;
+  deliveryHour: number;
+  // Local days of the week (0 = Sunday) the morning brief goes out on.
+  deliveryDays: number[];
+  paused: boolean;
 };
 
-const ensureFile = async () => {
-  await fs.mkdir(DATA_DIR, { recursive: true });
+export type SubscriberPreferences = Pick<
+  Subscriber,
+  | "email"
+  | "location"
+  | "units"
+  | "timezone"
+  | "minAlertSeverity"
+  | "deliveryHour"
+  | "deliveryDays"
+  | "paused"
+>;
+
+export const toSubscriberPreferences = (
+  subscriber: Subscriber
+): SubscriberPreferences => ({
+  email: subscriber.email,
+  location: subscriber.location,
+  units: subscriber.units,
+  timezone: subscriber.timezone,
+  minAlertSeverity: subscriber.minAlertSeverity,
+  deliveryHour: subscriber.deliveryHour,
+  deliveryDays: subscriber.deliveryDays,
+  paused: subscriber.paused,
+});
+
+export const isValidTimeZone = (timeZone: string) => {
   try {
-    await fs.access(FILE_PATH);
+    new Intl.DateTimeFormat("en-US", { timeZone }).format(new Date());
+    return true;
   } catch {
-    await fs.writeFile(FILE_PATH, JSON.stringify([]));
+    return false;
   }
 };
 
-const generateToken = () => crypto.randomBytes(16).toString("hex");
-
-const migrate = (raw: unknown): { data: Subscriber[]; changed: boolean } => {
-  if (!Array.isArray(raw)) return { data: [], changed: true };
+export const MAX_LOCATION_NAME_LENGTH = 80;
 
-  if (raw.length === 0) {
-    return { data: [], changed: false };
-  }
+// Letters, digits, spaces and the punctuation that shows up in place names
+// ("St. John's, NL", "Winston-Salem", "Coeur d'Alene (ID)").
+const LOCATION_NAME_PATTERN = /^[\p{L}\p{M}\p{N} .,'’()&/-]+$/u;
 
-  if (typeof raw[0] === "string") {
-    return {
-      data: (raw as string[]).map((email) => ({
-        email: normalizeEmail(email),
-        unit: DEFAULT_UNIT,
-        timezone: DEFAULT_TIMEZONE,
-        token: generateToken(),
-        subscribedAt: new Date().toISOString(),
-      })),
-      changed: true,
-    };
-  }
-
-  const updated = (raw as Subscriber[]).map((entry) => ({
-    email: normalizeEmail(entry.email),
-    location: entry.location,
-    unit: entry.unit ?? DEFAULT_UNIT,
-    timezone: entry.timezone ?? DEFAULT_TIMEZONE,
-    token: entry.token || generateToken(),
-    subscribedAt: entry.subscribedAt ?? new Date().toISOString(),
-    lastSentOn: entry.lastSentOn,
-  }));
-
-  return { data: updated, changed: true };
+// Returns the cleaned-up name, or null when it should be rejected.
+export const normalizeLocationName = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const name = value.replace(/\s+/g, " ").trim();
+  if (!name || name.length > MAX_LOCATION_NAME_LENGTH) return null;
+  return LOCATION_NAME_PATTERN.test(name) ? name : null;
 };
 
-const readAll = async (): Promise<Subscriber[]> => {
-  await ensureFile();
-  const contents = await fs.readFile(FILE_PATH, "utf-8");
-  const parsed = JSON.parse(contents) as unknown;
-  const { data, changed } = migrate(parsed);
-  if (changed) {
-    await fs.writeFile(FILE_PATH, JSON.stringify(data, null, 2));
-  }
-  return data;
-};
+export const isDeliveryHour = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 23;
 
-const writeAll = async (emails: Subscriber[]) => {
-  await ensureFile();
-  await fs.writeFile(FILE_PATH, JSON.stringify(emails, null, 2));
-};
+const generateToken = () => crypto.randomBytes(16).toString("hex");
 
 const isEmail = (email: string) =>
   /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
@@ -90,8 +112,9 @@ export const addSubscriber = async (
   email: string,
   options?: {
     location?: Subscriber["location"];
-    unit?: Subscriber["unit"];
+    units?: UnitSystem;
     timezone?: string;
+    minAlertSeverity?: AlertThreshold;
   }
 ) => {
   const normalized = normalizeEmail(email);
@@ -99,47 +122,122 @@ export const addSubscriber = async (
     return { ok: false, message: "Invalid email" };
   }
 
-  const subscribers = await readAll();
-  const existing = subscribers.find((entry) => entry.email === normalized);
-  if (existing) {
-    existing.location = options?.location ?? existing.location;
-    existing.unit = options?.unit ?? existing.unit;
-    existing.timezone = options?.timezone ?? existing.timezone;
-    await writeAll(subscribers);
-    return { ok: true, message: "Already subscribed" };
+  const store = await getSubscriberStore();
+  const existing = await store.findByEmail(normalized);
+
+  // confirmSentAt is cleared when the email could not go out, so only a
+  // confirmation that was actually sent holds off another.
+  if (existing?.status === "pending" && existing.confirmSentAt) {
+    const sentAt = Date.parse(existing.confirmSentAt);
+    if (Date.now() - sentAt < CONFIRM_RESEND_INTERVAL_MS) {
+      return {
+        ok: true,
+        message: "Confirmation already sent",
+        awaitingConfirmation: true,
+      };
+    }
   }
 
-  subscribers.push({
-    email: normalized,
-    location: options?.location,
-    unit: options?.unit ?? DEFAULT_UNIT,
-    timezone: options?.timezone ?? DEFAULT_TIMEZONE,
-    token: generateToken(),
-    subscribedAt: new Date().toISOString(),
-  });
-  await writeAll(subscribers);
-  return { ok: true, message: "Subscribed" };
+  // Unconfirmed addresses get a fresh token on each (throttled) resend so the
+  // new link works and the expiry window restarts.
+  if (!existing || existing.status === "pending") {
+    const confirmToken = generateToken();
+    const confirmSentAt = new Date().toISOString();
+    const pendingChanges: SubscriberChanges = {
+      location: options?.location ?? existing?.location,
+      units: options?.units ?? existing?.units ?? DEFAULT_UNIT_SYSTEM,
+      timezone: options?.timezone ?? existing?.timezone ?? DEFAULT_TIMEZONE,
+      minAlertSeverity:
+        options?.minAlertSeverity ??
+        existing?.minAlertSeverity ??
+        DEFAULT_MIN_ALERT_SEVERITY,
+      token: existing?.token ?? generateToken(),
+      subscribedAt: existing?.subscribedAt ?? confirmSentAt,
+      sentAlertIds: [],
+      deliveryHour: existing?.deliveryHour ?? DEFAULT_DELIVERY_HOUR,
+      deliveryDays: existing?.deliveryDays ?? [...ALL_DELIVERY_DAYS],
+      paused: existing?.paused ?? false,
+      status: "pending",
+      confirmToken,
+      confirmSentAt,
+    };
+    const pending = { email: normalized, ...pendingChanges } as Subscriber;
+    const saved = existing
+      ? (await store.update([{ email: normalized, changes: pendingChanges }])) > 0
+      : await store.insert(pending);
+    if (!saved) {
+      return { ok: false, message: "Unable to subscribe" };
+    }
+    return { ok: true, message: "Confirmation sent", pending };
+  }
+
+  // Knowing an address is not proof of owning it: active subscribers change
+  // their settings through the tokenized preferences link instead.
+  return {
+    ok: true,
+    message:
+      "Already subscribed. Use the preferences link in any SkyView email to change your settings.",
+  };
+};
+
+const resolvePendingTtlMs = () => {
+  const hours = Number.parseFloat(process.env.PENDING_SUBSCRIBER_TTL_HOURS ?? "");
+  return (
+    (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_PENDING_TTL_HOURS) *
+    60 *
+    60 *
+    1000
+  );
+};
+
+const isPendingExpired = (subscriber: Subscriber, now: Date) => {
+  if (subscriber.status !== "pending") return false;
+  const sentAt = Date.parse(subscriber.confirmSentAt ?? subscriber.subscribedAt);
+  return Number.isNaN(sentAt) || now.getTime() - sentAt > resolvePendingTtlMs();
 };
 
-export const listSubscribers = async () => readAll();
+// Looks up an unconfirmed address without activating it.
+export const findPendingByConfirmToken = async (confirmToken: string) => {
+  const store = await getSubscriberStore();
+  const subscriber = await store.findByConfirmToken(confirmToken);
+  return subscriber && !isPendingExpired(subscriber, new Date()) ? subscriber : null;
+};
+
+export const confirmSubscriber = async (confirmToken: string) => {
+  const store = await getSubscriberStore();
+  const subscriber = await store.findByConfirmToken(confirmToken);
+  if (!subscriber || isPendingExpired(subscriber, new Date())) return null;
 
-export const updateSubscriber = async (subscriber: Subscriber) => {
-  const subscribers = await readAll();
-  const index = subscribers.findIndex((entry) => entry.email === subscriber.email);
-  if (index === -1) return false;
-  subscribers[index] = subscriber;
-  await writeAll(subscribers);
-  return true;
+  const changes: SubscriberChanges = {
+    status: "active",
+    confirmToken: undefined,
+    confirmedAt: new Date().toISOString(),
+  };
+  const updated = await store.update([{ email: subscriber.email, changes }]);
+  return updated > 0 ? { ...subscriber, ...changes } : null;
 };
 
-export const saveSubscribers = async (subscribers: Subscriber[]) => {
-  await writeAll(subscribers);
+export const purgeExpiredPending = async (now = new Date()) => {
+  const store = await getSubscriberStore();
+  const expired = (await store.list()).filter((subscriber) =>
+    isPendingExpired(subscriber, now)
+  );
+  if (expired.length === 0) return 0;
+  return store.removeByEmails(expired.map((subscriber) => subscriber.email));
 };
 
-export const removeSubscriberByToken = async (token: string) => {
-  const subscribers = await readAll();
-  const filtered = subscribers.filter((entry) => entry.token !== token);
-  if (filtered.length === subscribers.length) return false;
-  await writeAll(filtered);
-  return true;
+export const listSubscribers = async () => (await getSubscriberStore()).list();
+
+export const findSubscriberByToken = async (token: string) =>
+  (await getSubscriberStore()).findByToken(token);
+
+export const updateSubscribers = async (
+  updates: Array<{ email: string; changes: SubscriberChanges }>
+) => {
+  if (updates.length === 0) return 0;
+  const store = await getSubscriberStore();
+  return store.update(updates);
 };
+
+export const removeSubscriberByToken = async (token: string) =>
+  (await getSubscriberStore()).removeByToken(token);
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatPressure,
+  formatSpeed,
+  formatTemperature,
+  formatUnitSystem,
+  parseUnitSystem,
+  UNIT_PRESETS,
+} from "@/lib/units";
+
+describe("parseUnitSystem", () => {
+  it("accepts presets and per-measure overrides", () => {
+    expect(parseUnitSystem("metric")).toBe("metric");
+    expect(parseUnitSystem("metric,speed:mph")).toEqual({
+      ...UNIT_PRESETS.metric,
+      speed: "mph",
+    });
+    expect(parseUnitSystem("temperature:C")).toEqual({
+      ...UNIT_PRESETS.imperial,
+      temperature: "C",
+    });
+  });
+
+  it("collapses overrides that match a preset", () => {
+    expect(parseUnitSystem("imperial,temperature:F")).toBe("imperial");
+  });
+
+  it("rejects unknown measures and units", () => {
+    expect(parseUnitSystem("kelvin")).toBeNull();
+    expect(parseUnitSystem("metric,speed:knots")).toBeNull();
+    expect(parseUnitSystem("")).toBeNull();
+  });
+
+  it.each(["toString", "constructor", "__proto__", "metric,toString:x", "hasOwnProperty:C"])(
+    "rejects inherited property name %j",
+    (value) => {
+      expect(parseUnitSystem(value)).toBeNull();
+    }
+  );
+
+  it("rejects inherited property names in an override object", () => {
+    expect(parseUnitSystem({ constructor: "C" })).toBeNull();
+  });
+
+  it("round-trips through formatUnitSystem", () => {
+    const system = parseUnitSystem("metric,speed:mph");
+    expect(system).not.toBeNull();
+    expect(parseUnitSystem(formatUnitSystem(system!))).toEqual(system);
+  });
+});
+
+describe("formatters", () => {
+  it("render missing values as a dash", () => {
+    expect(formatTemperature(null, UNIT_PRESETS.metric)).toBe("—");
+  });
+
+  it("convert from the payload's US units", () => {
+    expect(formatTemperature(41, UNIT_PRESETS.metric)).toBe("5°C");
+    expect(formatSpeed(14, UNIT_PRESETS.metric)).toBe("23 km/h");
+    expect(formatPressure(29.92, UNIT_PRESETS.metric)).toBe("1013 hPa");
+    expect(formatPressure(29.92, UNIT_PRESETS.imperial)).toBe("29.92 inHg");
+  });
+});
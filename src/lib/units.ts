@@ -0,0 +1,199 @@
+import type { WeatherPayload } from "@/lib/nws";
+
+// Payloads are always stored in US units (°F, mph, miles, inHg, inches);
+// everything shown to a reader goes through this module.
+export const UNIT_OPTIONS = {
+  temperature: ["F", "C"],
+  speed: ["mph", "km/h"],
+  distance: ["mi", "km"],
+  pressure: ["inHg", "hPa"],
+  precipitation: ["in", "mm"],
+} as const;
+
+export type Measure = keyof typeof UNIT_OPTIONS;
+
+export type Units = { [M in Measure]: (typeof UNIT_OPTIONS)[M][number] };
+
+export type UnitPreset = "imperial" | "metric";
+
+// A preset, or a unit picked per measure.
+export type UnitSystem = UnitPreset | Units;
+
+export const UNIT_PRESETS: Record<UnitPreset, Units> = {
+  imperial: {
+    temperature: "F",
+    speed: "mph",
+    distance: "mi",
+    pressure: "inHg",
+    precipitation: "in",
+  },
+  metric: {
+    temperature: "C",
+    speed: "km/h",
+    distance: "km",
+    pressure: "hPa",
+    precipitation: "mm",
+  },
+};
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "imperial";
+
+const MEASURES = Object.keys(UNIT_OPTIONS) as Measure[];
+
+// Own keys only: "toString" or "__proto__" must not pass for a preset.
+const isPreset = (value: string): value is UnitPreset =>
+  Object.hasOwn(UNIT_PRESETS, value);
+
+export const resolveUnits = (system: UnitSystem): Units =>
+  typeof system === "string" ? UNIT_PRESETS[system] : system;
+
+const matchPreset = (units: Units) =>
+  (Object.keys(UNIT_PRESETS) as UnitPreset[]).find((preset) =>
+    MEASURES.every((measure) => UNIT_PRESETS[preset][measure] === units[measure])
+  );
+
+// Accepts "imperial", "metric", or per-measure overrides on top of a preset:
+// "metric,speed:mph" or "temperature:C" (which starts from imperial). A
+// `{ measure: unit }` object reads the same as the override list. Returns null
+// for anything it does not recognize.
+export const parseUnitSystem = (value: unknown): UnitSystem | null => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return parseUnitSystem(
+      Object.entries(value)
+        .map(([measure, unit]) => `${measure}:${unit}`)
+        .join(",")
+    );
+  }
+  if (typeof value !== "string") return null;
+  const parts = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const base = isPreset(parts[0])
+    ? (parts.shift() as UnitPreset)
+    : DEFAULT_UNIT_SYSTEM;
+  const units: Units = { ...resolveUnits(base) };
+  for (const part of parts) {
+    const [measure, unit] = part.split(":");
+    if (!Object.hasOwn(UNIT_OPTIONS, measure)) return null;
+    const options: readonly string[] = UNIT_OPTIONS[measure as Measure];
+    if (!options.includes(unit)) return null;
+    (units as Record<Measure, string>)[measure as Measure] = unit;
+  }
+  return matchPreset(units) ?? units;
+};
+
+// The inverse of parseUnitSystem; used for storage and query strings.
+export const formatUnitSystem = (system: UnitSystem) => {
+  if (typeof system === "string") return system;
+  const preset = matchPreset(system);
+  if (preset) return preset;
+  return MEASURES.map((measure) => `${measure}:${system[measure]}`).join(",");
+};
+
+const round = (value: number, digits = 0) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const convert =
+  (metric: (value: number) => number, digits: number, imperialDigits = digits) =>
+  (value: number | null, isImperial: boolean) => {
+    if (value === null) return null;
+    return isImperial
+      ? round(value, imperialDigits)
+      : round(metric(value), digits);
+  };
+
+const toCelsius = convert((value) => (value - 32) * (5 / 9), 0);
+const toKmh = convert((value) => value * 1.609344, 0);
+const toKm = convert((value) => value * 1.609344, 1);
+const toHpa = convert((value) => value * 33.8639, 0, 2);
+const toMm = convert((value) => value * 25.4, 1, 2);
+// Snow depth reads in centimetres, not millimetres.
+const toCm = convert((value) => value * 2.54, 1);
+
+export const convertTemperature = (valueF: number | null, units: Units) =>
+  toCelsius(valueF, units.temperature === "F");
+
+export const convertSpeed = (valueMph: number | null, units: Units) =>
+  toKmh(valueMph, units.speed === "mph");
+
+export const convertDistance = (valueMiles: number | null, units: Units) =>
+  toKm(valueMiles, units.distance === "mi");
+
+export const convertPressure = (valueInHg: number | null, units: Units) =>
+  toHpa(valueInHg, units.pressure === "inHg");
+
+export const convertPrecipitation = (valueIn: number | null, units: Units) =>
+  toMm(valueIn, units.precipitation === "in");
+
+export const convertSnowfall = (valueIn: number | null, units: Units) =>
+  toCm(valueIn, units.precipitation === "in");
+
+export const snowfallUnit = (units: Units): "in" | "cm" =>
+  units.precipitation === "in" ? "in" : "cm";
+
+const withUnit = (value: number | null, unit: string, separator = " ") =>
+  value === null ? "—" : `${value}${separator}${unit}`;
+
+export const formatTemperature = (valueF: number | null, units: Units) =>
+  withUnit(convertTemperature(valueF, units), `°${units.temperature}`, "");
+
+export const formatSpeed = (valueMph: number | null, units: Units) =>
+  withUnit(convertSpeed(valueMph, units), units.speed);
+
+export const formatDistance = (valueMiles: number | null, units: Units) =>
+  withUnit(convertDistance(valueMiles, units), units.distance);
+
+export const formatPressure = (valueInHg: number | null, units: Units) =>
+  withUnit(convertPressure(valueInHg, units), units.pressure);
+
+export const formatPrecipitationAmount = (valueIn: number | null, units: Units) =>
+  withUnit(convertPrecipitation(valueIn, units), units.precipitation);
+
+export const formatSnowfallAmount = (valueIn: number | null, units: Units) =>
+  withUnit(convertSnowfall(valueIn, units), snowfallUnit(units));
+
+export type ConvertedWeather = ReturnType<typeof convertWeather>;
+
+// The numeric parts of a payload in the requested units, under unit-neutral
+// names. Condition text, times and alerts are left to the payload itself.
+export const convertWeather = (weather: WeatherPayload, units: Units) => {
+  const { current } = weather;
+  return {
+    units: { ...units, snowfall: snowfallUnit(units) },
+    current: {
+      temperature: convertTemperature(current.temperatureF, units),
+      feelsLike: convertTemperature(current.feelsLikeF, units),
+      dewPoint: convertTemperature(current.dewPointF, units),
+      windSpeed: convertSpeed(current.windSpeedMph, units),
+      windGust: convertSpeed(current.windGustMph, units),
+      pressure: convertPressure(current.pressureInHg, units),
+      visibility: convertDistance(current.visibilityMiles, units),
+      stationDistance: convertDistance(
+        current.station?.distanceMiles ?? null,
+        units
+      ),
+    },
+    hourly: weather.hourly.map((hour) => ({
+      time: hour.time,
+      temperature: convertTemperature(hour.temperatureF, units),
+      feelsLike: convertTemperature(hour.feelsLikeF, units),
+      windChill: convertTemperature(hour.windChillF, units),
+      windGust: convertSpeed(hour.windGustMph, units),
+      precipitation: convertPrecipitation(hour.precipitationIn, units),
+      snowfall: convertSnowfall(hour.snowfallIn, units),
+      ice: convertPrecipitation(hour.iceIn, units),
+    })),
+    daily: weather.daily.map((day) => ({
+      date: day.date,
+      high: convertTemperature(day.highF, units),
+      low: convertTemperature(day.lowF, units),
+      precipitation: convertPrecipitation(day.precipitationIn, units),
+      snowfall: convertSnowfall(day.snowfallIn, units),
+    })),
+  };
+};
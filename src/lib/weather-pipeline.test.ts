@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeFetch, type FakeFetch } from "@/test/fake-fetch";
+import {
+  BROOKLYN,
+  buildScenario,
+  NWS_ENDPOINTS,
+  nwsRoutes,
+  OPEN_METEO_ENDPOINTS,
+  SCENARIO_NOW,
+} from "@/test/scenarios";
+
+const MINUTE_MS = 60 * 1000;
+
+let fake: FakeFetch;
+
+// A fresh module graph per test, so the cache, in-flight map and NWS circuit
+// all start empty.
+const loadPipeline = () => import("@/lib/weather-pipeline");
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(SCENARIO_NOW);
+  fake = installFakeFetch(buildScenario("clear"));
+});
+
+afterEach(() => {
+  expect(fake.unmatched).toEqual([]);
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("getWeatherSnapshotByCoords", () => {
+  it("answers repeat requests from the cache", async () => {
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    const first = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+    advance(MINUTE_MS);
+    const second = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(first.meta.source).toBe("live");
+    expect(second.meta.source).toBe("cache");
+    expect(fake.count(NWS_ENDPOINTS.forecast)).toBe(1);
+  });
+
+  it("falls back to Open-Meteo when NWS is down and nothing is cached", async () => {
+    fake.use(nwsRoutes("nwsOutage"));
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    const snapshot = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(snapshot.meta.source).toBe("live");
+    expect(snapshot.data.provider).toBe("open-meteo");
+    expect(snapshot.data.current.temperatureF).toBe(27);
+    // Three attempts at the points lookup before giving up on NWS.
+    expect(fake.count(NWS_ENDPOINTS.points)).toBe(3);
+  }, 10_000);
+
+  it("serves stale NWS data during an outage while the refresh falls back", async () => {
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    fake.use(nwsRoutes("nwsOutage"));
+    advance(10 * MINUTE_MS);
+    const stale = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+    expect(stale.meta.source).toBe("stale");
+    expect(stale.data.provider).toBe("nws");
+    expect(stale.meta.ageMs).toBe(10 * MINUTE_MS);
+
+    // The background refresh gives up on NWS and stores Open-Meteo's answer.
+    await vi.waitFor(
+      () => expect(fake.count(OPEN_METEO_ENDPOINTS.forecast)).toBe(1),
+      { timeout: 5_000 }
+    );
+    const refreshed = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+    expect(refreshed.meta.source).toBe("cache");
+    expect(refreshed.data.provider).toBe("open-meteo");
+  }, 10_000);
+
+  it("fetches again once the cached copy is past its stale window", async () => {
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    fake.use(nwsRoutes("nwsOutage"));
+    advance(31 * MINUTE_MS);
+    const snapshot = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(snapshot.meta.source).toBe("live");
+    expect(snapshot.data.provider).toBe("open-meteo");
+  }, 10_000);
+
+  it("merges fresh alerts over the cached forecast", async () => {
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    fake.use(nwsRoutes("hurricane"));
+    advance(2 * MINUTE_MS);
+    const snapshot = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(snapshot.meta.source).toBe("cache");
+    expect(snapshot.data.alerts[0].event).toBe("Hurricane Warning");
+  });
+
+  it("keeps point metadata out of the forecast cache's eviction", async () => {
+    vi.stubEnv("WEATHER_CACHE_MAX_ENTRIES", "1");
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+    advance(31 * MINUTE_MS);
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(fake.count(NWS_ENDPOINTS.forecast)).toBe(2);
+    expect(fake.count(NWS_ENDPOINTS.points)).toBe(1);
+  });
+
+  it("asks for alerts once per forecast fetch", async () => {
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(fake.count(NWS_ENDPOINTS.forecast)).toBe(1);
+    expect(fake.count(NWS_ENDPOINTS.alerts)).toBe(1);
+  });
+
+  it("keeps the last alerts when refreshing them fails", async () => {
+    fake.use(nwsRoutes("hurricane"));
+    const { getWeatherSnapshotByCoords } = await loadPipeline();
+    await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    fake.use([{ url: NWS_ENDPOINTS.alerts, reply: { status: 500 } }]);
+    advance(2 * MINUTE_MS);
+    const snapshot = await getWeatherSnapshotByCoords(BROOKLYN.lat, BROOKLYN.lon);
+
+    expect(fake.count(NWS_ENDPOINTS.alerts)).toBeGreaterThan(1);
+    expect(snapshot.data.alerts[0].event).toBe("Hurricane Warning");
+  }, 10_000);
+});
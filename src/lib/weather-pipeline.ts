@@ -1,56 +1,87 @@
-import { getNewYorkWeather, getWeatherByCoords, type WeatherPayload } from "@/lib/nws";
+import { after } from "next/server";
+import {
+  NYC_COORDS,
+  type WeatherAlert,
+  type WeatherPayload,
+} from "@/lib/nws";
+import {
+  getAlertsFromProvider,
+  getNwsCircuitState,
+  getWeatherFromProviders,
+} from "@/lib/weather-provider";
+import type { CircuitState } from "@/lib/circuit-breaker";
+import {
+  getCacheStore,
+  resolveCacheStoreKind,
+  type CacheRecord,
+  type CacheStore,
+} from "@/lib/cache-store";
 
 const CACHE_TTL_MS = 5 * 60 * 1000;
 const STALE_TTL_MS = 30 * 60 * 1000;
+const ALERTS_TTL_MS = 60 * 1000;
+// While the NWS circuit is open, cached NWS data is served for this long
+// rather than switching the location over to the fallback provider.
+const OUTAGE_STALE_TTL_MS = 6 * 60 * 60 * 1000;
 
-type CacheEntry = { data: WeatherPayload; fetchedAt: number };
-type CacheBucket = {
-  cache: CacheEntry | null;
-  lastGood: CacheEntry | null;
-  inFlight: Promise<WeatherPayload> | null;
-};
+type CacheEntry = CacheRecord<WeatherPayload>;
 
-const cacheBuckets = new Map<string, CacheBucket>();
+// Cached data lives in the CacheStore; only in-flight requests, which cannot
+// be shared across processes, are tracked here.
+const inFlight = new Map<string, Promise<CacheEntry>>();
+const alertsInFlight = new Map<string, Promise<WeatherAlert[]>>();
 
-const getBucket = (key: string): CacheBucket => {
-  const existing = cacheBuckets.get(key);
-  if (existing) return existing;
-  const bucket: CacheBucket = { cache: null, lastGood: null, inFlight: null };
-  cacheBuckets.set(key, bucket);
-  return bucket;
+// `stale` counts requests answered from an expired entry while a background
+// refresh runs; they are not counted as misses.
+const cacheStats = {
+  forecast: { hits: 0, misses: 0, stale: 0 },
+  alerts: { hits: 0, misses: 0 },
 };
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+export const getWeatherCacheStats = async () => {
+  const store = await getCacheStore();
+  return {
+    store: resolveCacheStoreKind(),
+    entries: await store.size(),
+    forecast: { ...cacheStats.forecast },
+    alerts: { ...cacheStats.alerts },
+  };
+};
 
-const fetchWithRetry = async (lat?: number, lon?: number) => {
-  const attempts = [0, 300, 800];
-  let lastError: unknown = null;
+const PREWARM_CONCURRENCY = 4;
 
-  for (const delay of attempts) {
-    if (delay > 0) await sleep(delay);
-    try {
-      if (typeof lat === "number" && typeof lon === "number") {
-        return await getWeatherByCoords(lat, lon);
-      }
-      return await getNewYorkWeather();
-    } catch (error) {
-      lastError = error;
-    }
+// Lets a refresh outlive the response on serverless platforms. Outside a
+// request (scripts, tests) `after` throws and the promise simply runs.
+const runInBackground = (task: Promise<unknown>) => {
+  try {
+    after(task);
+  } catch {
+    void task;
   }
-
-  throw lastError;
 };
 
+// Retries and timeouts live with each provider, which know which failures are
+// worth another attempt.
+const fetchWeather = (lat?: number, lon?: number) =>
+  typeof lat === "number" && typeof lon === "number"
+    ? getWeatherFromProviders(lat, lon)
+    : getWeatherFromProviders(NYC_COORDS.lat, NYC_COORDS.lon, "New York, NY");
+
 export type WeatherMeta = {
   source: "live" | "cache" | "stale";
   fetchedAt: string;
   ageMs: number;
+  circuit: CircuitState;
 };
 
-const buildMeta = (source: WeatherMeta["source"], fetchedAt: number) => ({
+const buildMeta = (
+  source: WeatherMeta["source"],
+  fetchedAt: number
+): WeatherMeta => ({
   source,
   fetchedAt: new Date(fetchedAt).toISOString(),
   ageMs: Date.now() - fetchedAt,
+  circuit: getNwsCircuitState(),
 });
 
 const applyOverrideName = (
@@ -67,52 +98,128 @@ const applyOverrideName = (
   };
 };
 
+const toBucketKey = (lat: number, lon: number) =>
+  `${lat.toFixed(3)},${lon.toFixed(3)}`;
+
+// Alerts change far more often than the forecast, so they are refreshed on
+// their own TTL and merged over whatever the forecast snapshot carried.
+export const getAlertsByCoords = async (
+  lat: number,
+  lon: number
+): Promise<WeatherAlert[]> => {
+  const store = await getCacheStore();
+  const key = `alerts:${toBucketKey(lat, lon)}`;
+  const cached = await store.get<WeatherAlert[]>(key);
+
+  if (cached && Date.now() - cached.fetchedAt < ALERTS_TTL_MS) {
+    cacheStats.alerts.hits += 1;
+    return cached.data;
+  }
+  cacheStats.alerts.misses += 1;
+
+  let pending = alertsInFlight.get(key);
+  if (!pending) {
+    pending = getAlertsFromProvider(lat, lon)
+      .then(async (alerts) => {
+        await store
+          .set(key, { data: alerts, fetchedAt: Date.now() })
+          .catch(() => undefined);
+        return alerts;
+      })
+      .finally(() => {
+        alertsInFlight.delete(key);
+      });
+    alertsInFlight.set(key, pending);
+  }
+
+  return pending;
+};
+
+// The forecast payload carries no alerts of its own; this is their only
+// source. If a refresh fails, the last alerts we had are better than none.
+const withFreshAlerts = async <T extends { data: WeatherPayload }>(
+  snapshot: T
+): Promise<T> => {
+  const { lat, lon } = snapshot.data.location;
+  const alerts = await getAlertsByCoords(lat, lon).catch(async () => {
+    const store = await getCacheStore();
+    const stale = await store
+      .get<WeatherAlert[]>(`alerts:${toBucketKey(lat, lon)}`)
+      .catch(() => null);
+    return stale?.data ?? snapshot.data.alerts;
+  });
+  return { ...snapshot, data: { ...snapshot.data, alerts } };
+};
+
+// Starts (or joins) the upstream fetch for a bucket and stores the result.
+const refreshBucket = (
+  store: CacheStore,
+  key: string,
+  fetcher: () => Promise<WeatherPayload>
+) => {
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = fetcher()
+      .then(async (data) => {
+        const entry = { data, fetchedAt: Date.now() };
+        // A cache write failure should not cost the caller fresh data.
+        await store.set(key, entry).catch(() => undefined);
+        return entry;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, pending);
+  }
+  return pending;
+};
+
 const getSnapshotForBucket = async (
   bucketKey: string,
   fetcher: () => Promise<WeatherPayload>,
   overrideName?: string | null
 ) => {
-  const bucket = getBucket(bucketKey);
-  const now = Date.now();
+  const store = await getCacheStore();
+  const key = `forecast:${bucketKey}`;
+  const cached = await store.get<WeatherPayload>(key);
+  const ageMs = cached ? Date.now() - cached.fetchedAt : Infinity;
 
-  if (bucket.cache && now - bucket.cache.fetchedAt < CACHE_TTL_MS) {
+  if (cached && ageMs < CACHE_TTL_MS) {
+    cacheStats.forecast.hits += 1;
     return {
-      data: applyOverrideName(bucket.cache.data, overrideName),
-      meta: buildMeta("cache", bucket.cache.fetchedAt),
+      data: applyOverrideName(cached.data, overrideName),
+      meta: buildMeta("cache", cached.fetchedAt),
     };
   }
 
-  if (!bucket.inFlight) {
-    bucket.inFlight = fetcher()
-      .then((data) => {
-        const fetchedAt = Date.now();
-        bucket.cache = { data, fetchedAt };
-        bucket.lastGood = { data, fetchedAt };
-        return data;
-      })
-      .finally(() => {
-        bucket.inFlight = null;
-      });
-  }
+  // While NWS is failing fast, keep serving its last answer untouched: a
+  // refresh now would only replace it with fallback data.
+  const nwsDown =
+    cached?.data.provider === "nws" && getNwsCircuitState() === "open";
 
-  try {
-    const data = await bucket.inFlight;
-    const fetchedAt = bucket.cache?.fetchedAt ?? Date.now();
+  // Stale-while-revalidate: answer now, refresh for the next caller.
+  if (
+    cached &&
+    ageMs < (nwsDown ? OUTAGE_STALE_TTL_MS : STALE_TTL_MS)
+  ) {
+    cacheStats.forecast.stale += 1;
+    if (!nwsDown) {
+      runInBackground(
+        refreshBucket(store, key, fetcher).catch(() => undefined)
+      );
+    }
     return {
-      data: applyOverrideName(data, overrideName),
-      meta: buildMeta("live", fetchedAt),
+      data: applyOverrideName(cached.data, overrideName),
+      meta: buildMeta("stale", cached.fetchedAt),
     };
-  } catch (error) {
-    const fallback = bucket.lastGood ?? bucket.cache;
-    if (fallback && now - fallback.fetchedAt < STALE_TTL_MS) {
-      return {
-        data: applyOverrideName(fallback.data, overrideName),
-        meta: buildMeta("stale", fallback.fetchedAt),
-      };
-    }
-
-    throw error;
   }
+
+  cacheStats.forecast.misses += 1;
+  const entry = await refreshBucket(store, key, fetcher);
+  return {
+    data: applyOverrideName(entry.data, overrideName),
+    meta: buildMeta("live", entry.fetchedAt),
+  };
 };
 
 export const getWeatherSnapshotByCoords = async (
@@ -120,13 +227,55 @@ export const getWeatherSnapshotByCoords = async (
   lon: number,
   overrideName?: string | null
 ) => {
-  const bucketKey = `${lat.toFixed(3)},${lon.toFixed(3)}`;
-  return getSnapshotForBucket(
+  const bucketKey = toBucketKey(lat, lon);
+  const snapshot = await getSnapshotForBucket(
     `coords:${bucketKey}`,
-    () => fetchWithRetry(lat, lon),
+    () => fetchWeather(lat, lon),
     overrideName
   );
+  return withFreshAlerts(snapshot);
 };
 
 export const getWeatherSnapshot = async () =>
-  getSnapshotForBucket("default", () => fetchWithRetry());
+  withFreshAlerts(await getSnapshotForBucket("default", () => fetchWeather()));
+
+// Refreshes the default bucket and every given location unless it is already
+// fresh, so the next reader (such as the morning send) never waits on NWS.
+export const prewarmWeather = async (
+  locations: Array<{ lat: number; lon: number }>
+) => {
+  const store = await getCacheStore();
+  const jobs = new Map<string, () => Promise<WeatherPayload>>([
+    ["forecast:default", () => fetchWeather()],
+  ]);
+  locations.forEach(({ lat, lon }) => {
+    jobs.set(`forecast:coords:${toBucketKey(lat, lon)}`, () =>
+      fetchWeather(lat, lon)
+    );
+  });
+
+  const queue = Array.from(jobs.entries());
+  const result = { warmed: 0, fresh: 0, failed: 0 };
+
+  const worker = async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      const [key, fetcher] = job;
+      const cached = await store.get<WeatherPayload>(key);
+      if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        result.fresh += 1;
+        continue;
+      }
+      try {
+        await refreshBucket(store, key, fetcher);
+        result.warmed += 1;
+      } catch {
+        result.failed += 1;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(PREWARM_CONCURRENCY, queue.length) }, worker)
+  );
+  return result;
+};
@@ -0,0 +1,127 @@
+import { createCircuitBreaker } from "@/lib/circuit-breaker";
+import {
+  getActiveAlerts,
+  getPointMetadata,
+  getWeatherByCoords,
+  isRetryableNwsError,
+  type WeatherAlert,
+  type WeatherPayload,
+  type WeatherProviderId,
+} from "@/lib/nws";
+import { getOpenMeteoWeather } from "@/lib/open-meteo";
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  covers(lat: number, lon: number): boolean;
+  getWeather(lat: number, lon: number, overrideName?: string): Promise<WeatherPayload>;
+  getAlerts(lat: number, lon: number): Promise<WeatherAlert[]>;
+}
+
+type Region = { south: number; north: number; west: number; east: number };
+
+// Rough bounding boxes for NWS forecast offices: the lower 48, Alaska, Hawaii,
+// Puerto Rico with the Virgin Islands, and Guam with the Northern Marianas.
+// They overlap Canada and Mexico near the border, where the NWS points lookup
+// fails and the next provider takes over.
+const NWS_REGIONS: Region[] = [
+  { south: 24.4, north: 49.5, west: -125, east: -66.9 },
+  { south: 51, north: 71.5, west: -180, east: -129 },
+  { south: 18.5, north: 22.5, west: -161, east: -154 },
+  { south: 17.6, north: 18.6, west: -67.5, east: -64.5 },
+  { south: 13.2, north: 20.6, west: 144.6, east: 146.1 },
+];
+
+const inRegion = (lat: number, lon: number, region: Region) =>
+  lat >= region.south &&
+  lat <= region.north &&
+  lon >= region.west &&
+  lon <= region.east;
+
+const RETRY_DELAYS_MS = [300, 800];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Only retries errors that another attempt could fix; a 404 fails at once.
+const withRetry = async <T>(task: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= RETRY_DELAYS_MS.length || !isRetryableNwsError(error)) {
+        throw error;
+      }
+      await sleep(RETRY_DELAYS_MS[attempt]);
+    }
+  }
+};
+
+// Five consecutive failed lookups (after retries) open the circuit for a
+// minute, during which NWS calls fail fast instead of waiting on timeouts.
+const nwsCircuit = createCircuitBreaker({
+  name: "nws",
+  failureThreshold: 5,
+  cooldownMs: 60_000,
+  isFailure: isRetryableNwsError,
+});
+
+export const getNwsCircuitState = () => nwsCircuit.getState();
+
+const nwsProvider: WeatherProvider = {
+  id: "nws",
+  covers: (lat, lon) => NWS_REGIONS.some((region) => inRegion(lat, lon, region)),
+  getWeather: (lat, lon, overrideName) =>
+    nwsCircuit.run(() => withRetry(() => getWeatherByCoords(lat, lon, overrideName))),
+  getAlerts: (lat, lon) =>
+    nwsCircuit.run(() => withRetry(() => getActiveAlerts(lat, lon))),
+};
+
+const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  covers: () => true,
+  getWeather: getOpenMeteoWeather,
+  getAlerts: async () => [],
+};
+
+// In order of preference; Open-Meteo covers everywhere and comes last.
+const PROVIDERS: WeatherProvider[] = [nwsProvider, openMeteoProvider];
+
+export const resolveProviders = (lat: number, lon: number) =>
+  PROVIDERS.filter((provider) => provider.covers(lat, lon));
+
+// Tries each covering provider in turn, so a point NWS rejects (or an NWS
+// outage) still gets a forecast.
+export const getWeatherFromProviders = async (
+  lat: number,
+  lon: number,
+  overrideName?: string
+) => {
+  let lastError: unknown = null;
+  for (const provider of resolveProviders(lat, lon)) {
+    try {
+      return await provider.getWeather(lat, lon, overrideName);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// Alerts always come from the preferred provider: if NWS is down and
+// Open-Meteo served the forecast, an alert lookup should fail loudly rather
+// than report "no alerts".
+export const getAlertsFromProvider = (lat: number, lon: number) =>
+  resolveProviders(lat, lon)[0].getAlerts(lat, lon);
+
+// The IANA zone NWS reports for a point, from the long-lived points cache.
+// Null outside NWS coverage or when the lookup fails.
+export const lookupTimeZone = async (lat: number, lon: number) => {
+  if (!nwsProvider.covers(lat, lon)) return null;
+  try {
+    const metadata = await nwsCircuit.run(() =>
+      withRetry(() => getPointMetadata(lat, lon))
+    );
+    return metadata.timeZone || null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,83 @@
+import { vi } from "vitest";
+
+// A canned upstream reply. `body` is sent as JSON; `error: "network"` rejects
+// the request the way an unreachable host would.
+export type FakeReply = {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  error?: "network";
+};
+
+export type FakeRoute = {
+  method?: string;
+  // A string matches `host + pathname` exactly (the query is ignored); a
+  // RegExp is tested against the full URL.
+  url: string | RegExp;
+  reply: FakeReply | ((request: Request) => FakeReply | Promise<FakeReply>);
+};
+
+export type FakeFetch = {
+  // Every request made, matched or not, in order.
+  requests: Request[];
+  // URLs no route answered. Nothing ever reaches the network, so a test that
+  // leaves this non-empty is exercising a path its scenario did not record.
+  unmatched: string[];
+  // Routes added later take precedence, so a test can override one endpoint
+  // of a scenario.
+  use(routes: FakeRoute[]): void;
+  count(url: string | RegExp): number;
+};
+
+const matches = (route: FakeRoute, request: Request) => {
+  if (route.method && route.method.toUpperCase() !== request.method) return false;
+  const url = new URL(request.url);
+  return typeof route.url === "string"
+    ? route.url === `${url.host}${url.pathname}`
+    : route.url.test(url.href);
+};
+
+const toResponse = ({ status = 200, body, headers }: FakeReply) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+// Replaces the global fetch for the current test; vi.unstubAllGlobals()
+// (or `unstubGlobals: true`) puts the real one back.
+export const installFakeFetch = (initialRoutes: FakeRoute[]): FakeFetch => {
+  let routes = [...initialRoutes];
+  const requests: Request[] = [];
+  const unmatched: string[] = [];
+
+  const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request);
+    if (request.signal.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError");
+    }
+
+    const route = routes.find((candidate) => matches(candidate, request));
+    if (!route) {
+      unmatched.push(`${request.method} ${request.url}`);
+      throw new TypeError(`fetch failed: no fixture for ${request.url}`);
+    }
+
+    const reply =
+      typeof route.reply === "function" ? await route.reply(request) : route.reply;
+    if (reply.error === "network") throw new TypeError("fetch failed");
+    return toResponse(reply);
+  };
+
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+
+  return {
+    requests,
+    unmatched,
+    use: (overrides) => {
+      routes = [...overrides, ...routes];
+    },
+    count: (url) =>
+      requests.filter((request) => matches({ url, reply: {} }, request)).length,
+  };
+};
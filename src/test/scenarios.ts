@@ -0,0 +1,119 @@
+import type { FakeRoute } from "@/test/fake-fetch";
+import alertsBlizzard from "@/lib/__fixtures__/nws/alerts-blizzard.json";
+import alertsHurricane from "@/lib/__fixtures__/nws/alerts-hurricane.json";
+import alertsNone from "@/lib/__fixtures__/nws/alerts-none.json";
+import forecast from "@/lib/__fixtures__/nws/forecast-okx.json";
+import gridpoints from "@/lib/__fixtures__/nws/gridpoints-okx.json";
+import gridpointsBlizzard from "@/lib/__fixtures__/nws/gridpoints-okx-blizzard.json";
+import hourly from "@/lib/__fixtures__/nws/hourly-okx.json";
+import observationKlgaNoTemperature from "@/lib/__fixtures__/nws/observation-klga-no-temperature.json";
+import observationKnyc from "@/lib/__fixtures__/nws/observation-knyc.json";
+import points from "@/lib/__fixtures__/nws/points-brooklyn.json";
+import stations from "@/lib/__fixtures__/nws/stations-okx.json";
+import geocodeBrooklyn from "@/lib/__fixtures__/open-meteo/geocode-brooklyn.json";
+import openMeteoForecast from "@/lib/__fixtures__/open-meteo/forecast-brooklyn.json";
+
+// Recorded on a January morning in Brooklyn; tests pin the clock here so
+// observation ages and "today" line up with the fixtures.
+export const SCENARIO_NOW = new Date("2026-01-14T13:00:00Z");
+export const BROOKLYN = { lat: 40.678, lon: -73.944, name: "Brooklyn, NY" };
+
+const NWS = "api.weather.gov";
+const GRID = `${NWS}/gridpoints/OKX/35,32`;
+
+export const NWS_ENDPOINTS = {
+  points: `${NWS}/points/${BROOKLYN.lat},${BROOKLYN.lon}`,
+  stations: `${GRID}/stations`,
+  forecast: `${GRID}/forecast`,
+  hourly: `${GRID}/forecast/hourly`,
+  grid: GRID,
+  alerts: `${NWS}/alerts/active`,
+  observation: (station: string) =>
+    `${NWS}/stations/${station}/observations/latest`,
+};
+
+export const OPEN_METEO_ENDPOINTS = {
+  forecast: "api.open-meteo.com/v1/forecast",
+  geocode: "geocoding-api.open-meteo.com/v1/search",
+};
+
+export const RESEND_ENDPOINT = "api.resend.com/emails";
+
+const notFound = { status: 404, body: { status: 404, title: "Not Found" } };
+const serverError = {
+  status: 500,
+  body: {
+    status: 500,
+    title: "Unexpected Problem",
+    detail: "An unexpected problem has occurred.",
+  },
+};
+
+export type ScenarioName =
+  | "clear"
+  | "hurricane"
+  | "blizzard"
+  | "missingObservation"
+  | "nwsOutage";
+
+const clearNws: FakeRoute[] = [
+  { url: NWS_ENDPOINTS.points, reply: { body: points } },
+  { url: NWS_ENDPOINTS.stations, reply: { body: stations } },
+  { url: NWS_ENDPOINTS.hourly, reply: { body: hourly } },
+  { url: NWS_ENDPOINTS.forecast, reply: { body: forecast } },
+  { url: NWS_ENDPOINTS.grid, reply: { body: gridpoints } },
+  { url: NWS_ENDPOINTS.alerts, reply: { body: alertsNone } },
+  { url: NWS_ENDPOINTS.observation("KNYC"), reply: { body: observationKnyc } },
+];
+
+// Overrides are listed first so they win over the clear-day routes.
+const NWS_SCENARIOS: Record<ScenarioName, FakeRoute[]> = {
+  clear: clearNws,
+  hurricane: [
+    { url: NWS_ENDPOINTS.alerts, reply: { body: alertsHurricane } },
+    ...clearNws,
+  ],
+  blizzard: [
+    { url: NWS_ENDPOINTS.alerts, reply: { body: alertsBlizzard } },
+    { url: NWS_ENDPOINTS.grid, reply: { body: gridpointsBlizzard } },
+    ...clearNws,
+  ],
+  // Central Park is down, La Guardia reports no temperature and Kennedy errors,
+  // so "current" has to come from the forecast.
+  missingObservation: [
+    { url: NWS_ENDPOINTS.observation("KNYC"), reply: notFound },
+    {
+      url: NWS_ENDPOINTS.observation("KLGA"),
+      reply: { body: observationKlgaNoTemperature },
+    },
+    { url: NWS_ENDPOINTS.observation("KJFK"), reply: serverError },
+    ...clearNws,
+  ],
+  // Every NWS endpoint answers 500.
+  nwsOutage: [{ url: new RegExp(`^https://${NWS}/`), reply: serverError }],
+};
+
+// Open-Meteo, geocoding and Resend answer the same way in every scenario.
+const sharedRoutes = (): FakeRoute[] => {
+  let sent = 0;
+  return [
+    { url: OPEN_METEO_ENDPOINTS.forecast, reply: { body: openMeteoForecast } },
+    { url: OPEN_METEO_ENDPOINTS.geocode, reply: { body: geocodeBrooklyn } },
+    {
+      method: "POST",
+      url: RESEND_ENDPOINT,
+      reply: () => {
+        sent += 1;
+        return { body: { id: `re_fixture_${sent}` } };
+      },
+    },
+  ];
+};
+
+// Just the NWS side of a scenario, for switching mid-test with `fake.use`.
+export const nwsRoutes = (name: ScenarioName) => NWS_SCENARIOS[name];
+
+export const buildScenario = (name: ScenarioName): FakeRoute[] => [
+  ...NWS_SCENARIOS[name],
+  ...sharedRoutes(),
+];